@@ -0,0 +1,22 @@
+// Give the chats and collections saved before accounts existed to an existing account.
+//   npm run auth:claim-history -- owner@example.com
+import { loadEnvConfig } from '@next/env';
+import { claimUnownedHistory, findUserByEmail } from '@/lib/auth/users';
+
+// Same .env files as the app
+loadEnvConfig(process.cwd());
+
+const email = process.argv[2];
+if (!email) {
+  console.error('Pass the email of the account that should own the history');
+  process.exit(1);
+}
+
+const user = findUserByEmail(email);
+if (!user) {
+  console.error(`No account with the email ${email}; sign up in the app first`);
+  process.exit(1);
+}
+
+const claimed = claimUnownedHistory(user.id);
+console.log(`Done: ${claimed.chats} chats and ${claimed.collections} collections now belong to ${user.email}`);
@@ -0,0 +1,27 @@
+// Build or update the knowledge base from KNOWLEDGE_SOURCES.
+//   npm run knowledge:index            index new and changed items, drop removed ones
+//   npm run knowledge:index -- --full  re-read and re-embed everything
+import { loadEnvConfig } from '@next/env';
+import { getKnowledgeConfig } from '@/lib/knowledge';
+import { indexKnowledgeBase } from '@/lib/knowledge/ingest';
+
+// Same .env files as the app
+loadEnvConfig(process.cwd());
+
+async function main() {
+  if (getKnowledgeConfig().sources.length === 0) {
+    console.error('Set KNOWLEDGE_SOURCES to one or more directories or sitemap URLs, separated by commas');
+    process.exit(1);
+  }
+
+  const report = await indexKnowledgeBase({ full: process.argv.includes('--full') });
+  console.log(
+    `Done: ${report.indexed} indexed, ${report.unchanged} unchanged, ${report.removed} removed, ${report.failed.length} failed`
+  );
+  if (report.failed.length > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionApiResponse } from '@/types';
+import { getAuthProviders, getRequestUser, isSignupAllowed, SESSION_COOKIE } from '@/lib/auth';
+
+// The signed-in user and the ways to sign in. A cookie for an expired or deleted session
+// is cleared, so the middleware sends the browser to the sign-in page next time
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  const body: SessionApiResponse = {
+    user,
+    providers: getAuthProviders().map(({ id, name, type }) => ({ id, name, type })),
+    signupAllowed: isSignupAllowed(),
+  };
+
+  const response = NextResponse.json(body);
+  if (!user && request.cookies.has(SESSION_COOKIE)) {
+    response.cookies.delete(SESSION_COOKIE);
+  }
+  return response;
+}
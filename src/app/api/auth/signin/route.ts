@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { credentialsProvider, startSession } from '@/lib/auth';
+
+// Sign in with an email and password; the session cookie is set on success
+export async function POST(request: NextRequest) {
+  const { email, password } = await request.json().catch(() => ({}));
+  if (typeof email !== 'string' || typeof password !== 'string') {
+    return NextResponse.json({ error: 'email and password are required' }, { status: 400 });
+  }
+
+  const user = await credentialsProvider.authorize(email, password);
+  if (!user) {
+    return NextResponse.json({ error: 'Incorrect email or password' }, { status: 401 });
+  }
+  return startSession(NextResponse.json({ user }), user.id);
+}
@@ -0,0 +1,6 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  return endSession(request, new NextResponse(null, { status: 204 }));
+}
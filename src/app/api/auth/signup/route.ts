@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUser, findUserByEmail, hashPassword, isSignupAllowed, startSession } from '@/lib/auth';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Create an account with an email and password and sign in to it
+export async function POST(request: NextRequest) {
+  if (!isSignupAllowed()) {
+    return NextResponse.json({ error: 'Sign-up is closed on this server' }, { status: 403 });
+  }
+
+  const { email, password, name } = await request.json().catch(() => ({}));
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+    return NextResponse.json({ error: 'email must be a valid email address' }, { status: 400 });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      { error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    return NextResponse.json({ error: 'name must be a string' }, { status: 400 });
+  }
+  if (findUserByEmail(email)) {
+    return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+  }
+
+  const user = createUser({ email, name, passwordHash: await hashPassword(password) });
+  if (!user) {
+    return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+  }
+  return startSession(NextResponse.json({ user }, { status: 201 }), user.id);
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { getChat } from '@/lib/chatStore';
+import {
+  addDocument,
+  detectDocumentKind,
+  DOCUMENT_MIME_TYPES,
+  DocumentPage,
+  extractDocumentText,
+  getDocumentConfig,
+  listDocuments,
+} from '@/lib/documents';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  if (!getChat(user.id, id)) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return NextResponse.json({ documents: listDocuments(id) });
+}
+
+// Upload a PDF, DOCX, Markdown or text file as multipart form data in the "file" field
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  if (!getChat(user.id, id)) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get('file');
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'Request must be multipart form data with a "file" field' }, { status: 400 });
+  }
+
+  const kind = detectDocumentKind(file.name, file.type);
+  if (!kind) {
+    return NextResponse.json({ error: 'Only PDF, DOCX, Markdown and text files are supported' }, { status: 415 });
+  }
+
+  const { maxBytes } = getDocumentConfig();
+  if (file.size > maxBytes) {
+    return NextResponse.json(
+      { error: `File is larger than the ${Math.floor(maxBytes / 1_000_000)} MB limit` },
+      { status: 413 }
+    );
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  let pages: DocumentPage[];
+  try {
+    pages = await extractDocumentText(kind, data);
+  } catch (error) {
+    console.error(`Failed to read ${file.name}:`, error);
+    return NextResponse.json({ error: `Could not read ${file.name}` }, { status: 422 });
+  }
+  if (pages.every(page => !page.text.trim())) {
+    return NextResponse.json(
+      { error: `${file.name} has no extractable text (scanned PDFs need OCR first)` },
+      { status: 422 }
+    );
+  }
+
+  const document = addDocument(id, { name: file.name, kind, mimeType: DOCUMENT_MIME_TYPES[kind], data }, pages);
+  if (!document) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return NextResponse.json({ document }, { status: 201 });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { appendMessage, getChat } from '@/lib/chatStore';
+import { parseMessage } from '@/lib/chatPayload';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  const chat = getChat(user.id, id);
+  if (!chat) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return NextResponse.json({ messages: chat.messages });
+}
+
+// Append a message; re-posting one of the chat's messages is a no-op
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  const message = parseMessage(await request.json().catch(() => null));
+  if (!message) {
+    return NextResponse.json(
+      { error: 'Request body must be a message with an id, query and response' },
+      { status: 400 }
+    );
+  }
+
+  const saved = appendMessage(user.id, id, message);
+  if (!saved) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  if (saved === 'conflict') {
+    return NextResponse.json({ error: 'Message id is already in use' }, { status: 409 });
+  }
+  return NextResponse.json({ message: saved }, { status: 201 });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { deleteChat, getChat, updateChat } from '@/lib/chatStore';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  const chat = getChat(user.id, id);
+  if (!chat) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return NextResponse.json({ chat });
+}
+
+// Update the chat's title, model, pin, collection or active branch; titleEdited marks a manual rename
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  const { title, titleEdited, model, pinned, collectionId, activeMessageId } = await request.json().catch(() => ({}));
+
+  if ([title, model, activeMessageId].some(value => value !== undefined && typeof value !== 'string')) {
+    return NextResponse.json({ error: 'title, model and activeMessageId must be strings' }, { status: 400 });
+  }
+  if ((titleEdited !== undefined && typeof titleEdited !== 'boolean') || (pinned !== undefined && typeof pinned !== 'boolean')) {
+    return NextResponse.json({ error: 'titleEdited and pinned must be booleans' }, { status: 400 });
+  }
+  if (collectionId !== undefined && collectionId !== null && typeof collectionId !== 'string') {
+    return NextResponse.json({ error: 'collectionId must be a string or null' }, { status: 400 });
+  }
+
+  const chat = updateChat(user.id, id, { title, titleEdited, model, pinned, collectionId, activeMessageId });
+  if (!chat) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return NextResponse.json({ chat });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  if (!deleteChat(user.id, id)) {
+    return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { createChat, deleteAllChats, listChats } from '@/lib/chatStore';
+import { parseChat } from '@/lib/chatPayload';
+
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  return NextResponse.json({ chats: listChats(user.id) });
+}
+
+// Create a chat (optionally with messages); re-posting an existing id is a no-op
+export async function POST(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+
+  const chat = parseChat(await request.json().catch(() => null));
+  if (!chat) {
+    return NextResponse.json(
+      { error: 'Request body must be a chat with an id, title and valid messages' },
+      { status: 400 }
+    );
+  }
+
+  const created = createChat(user.id, chat);
+  if (!created) {
+    return NextResponse.json({ error: 'Chat id or a message id is already in use' }, { status: 409 });
+  }
+  return NextResponse.json({ chat: created }, { status: 201 });
+}
+
+export async function DELETE(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  deleteAllChats(user.id);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { HistorySearchApiResponse } from '@/types';
+import { searchHistory } from '@/lib/historySearch';
+
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Search across all chats: ?q=words&from=<date>&to=<date>&domain=example.com
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const searchParams = request.nextUrl.searchParams;
+  const from = parseDateParam(searchParams.get('from'));
+  const to = parseDateParam(searchParams.get('to'));
+  if (from === null || to === null) {
+    return NextResponse.json({ error: 'from and to must be valid dates' }, { status: 400 });
+  }
+
+  const body: HistorySearchApiResponse = {
+    results: searchHistory(user.id, searchParams.get('q') ?? '', {
+      from,
+      to,
+      domain: searchParams.get('domain') ?? undefined,
+    }),
+  };
+  return NextResponse.json(body);
+}
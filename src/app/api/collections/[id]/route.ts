@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { deleteCollection, getCollection, updateCollection } from '@/lib/collectionStore';
+import { isSearchFocus } from '@/lib/focus';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  const collection = getCollection(user.id, id);
+  if (!collection) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+  }
+  return NextResponse.json({ collection });
+}
+
+// Update the name, instructions or default focus; null clears instructions and focus
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  const { name, instructions, defaultFocus } = await request.json().catch(() => ({}));
+
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return NextResponse.json({ error: 'name must be a non-empty string' }, { status: 400 });
+  }
+  if (instructions !== undefined && instructions !== null && typeof instructions !== 'string') {
+    return NextResponse.json({ error: 'instructions must be a string or null' }, { status: 400 });
+  }
+  if (defaultFocus !== undefined && defaultFocus !== null && !isSearchFocus(defaultFocus)) {
+    return NextResponse.json({ error: `Unknown focus "${defaultFocus}"` }, { status: 400 });
+  }
+
+  const collection = updateCollection(user.id, id, { name: name?.trim(), instructions, defaultFocus });
+  if (!collection) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+  }
+  return NextResponse.json({ collection });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  if (!deleteCollection(user.id, id)) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { createCollection, listCollections } from '@/lib/collectionStore';
+import { parseCollection } from '@/lib/chatPayload';
+
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  return NextResponse.json({ collections: listCollections(user.id) });
+}
+
+// Create a collection; re-posting an existing id is a no-op
+export async function POST(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+
+  const collection = parseCollection(await request.json().catch(() => null));
+  if (!collection) {
+    return NextResponse.json(
+      { error: 'Request body must be a collection with an id and a non-empty name' },
+      { status: 400 }
+    );
+  }
+
+  const created = createCollection(user.id, collection);
+  if (!created) {
+    return NextResponse.json({ error: 'Collection id is already in use' }, { status: 409 });
+  }
+  return NextResponse.json({ collection: created }, { status: 201 });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { DOCUMENT_MIME_TYPES, getDocumentFile } from '@/lib/documents';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Serve the uploaded file inline so citations open it in the browser (PDFs at the #page=N fragment)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  const file = getDocumentFile(user.id, id);
+  if (!file) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(file.data), {
+    headers: {
+      'Content-Type': DOCUMENT_MIME_TYPES[file.kind],
+      'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+      // The type comes from the detected kind, never from the upload, so HTML cannot be served from here
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=3600',
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { deleteDocument } from '@/lib/documents';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Removes the file and its passages; answers that already cite it keep their text
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  if (!deleteDocument(user.id, id)) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
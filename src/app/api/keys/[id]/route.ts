@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { revokeApiKey } from '@/lib/apiKeys';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Revoke the key; requests made with it are rejected from now on
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { id } = await params;
+  if (!revokeApiKey(user.id, id)) {
+    return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
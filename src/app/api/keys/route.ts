@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CreateApiKeyResponse } from '@/types';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { createApiKey, listApiKeys } from '@/lib/apiKeys';
+
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  return NextResponse.json({ apiKeys: listApiKeys(user.id) });
+}
+
+// Issue a key for the public API; the key is only returned in this response
+export async function POST(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+
+  const { name } = await request.json().catch(() => ({}));
+  if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+    return NextResponse.json({ error: 'name must be a non-empty string of at most 100 characters' }, { status: 400 });
+  }
+
+  const body: CreateApiKeyResponse = createApiKey(user.id, name.trim());
+  return NextResponse.json(body, { status: 201 });
+}
@@ -0,0 +1,51 @@
+import { readFile } from 'fs/promises';
+import { basename, resolve, sep } from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { DocumentKind } from '@/types';
+import { DOCUMENT_MIME_TYPES } from '@/lib/documents';
+import { getKnowledgeDocument, isSitemapSource } from '@/lib/knowledge';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Serve an indexed file from its directory so citations open it (PDFs at the #page=N fragment).
+// Sitemap pages redirect to the page itself
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!getRequestUser(request)) return unauthorized();
+  const { id } = await params;
+  const document = getKnowledgeDocument(id);
+  if (!document) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+  if (isSitemapSource(document.location)) {
+    return NextResponse.redirect(document.location);
+  }
+
+  // Locations come from the indexer, but never serve anything outside the indexed directory
+  const root = resolve(document.source);
+  const path = resolve(root, document.location);
+  if (!path.startsWith(root + sep)) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+
+  let data: Buffer;
+  try {
+    data = await readFile(path);
+  } catch {
+    return NextResponse.json({ error: 'The file is no longer in the knowledge base directory' }, { status: 404 });
+  }
+
+  const isHtml = document.kind === 'html';
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      'Content-Type': isHtml ? 'text/html; charset=utf-8' : DOCUMENT_MIME_TYPES[document.kind as DocumentKind],
+      'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(basename(path))}`,
+      'X-Content-Type-Options': 'nosniff',
+      // Indexed HTML is shown, but its scripts never run with the app's origin
+      ...(isHtml ? { 'Content-Security-Policy': 'sandbox' } : {}),
+      'Cache-Control': 'private, max-age=3600',
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { getMediaConfig } from '@/lib/media';
+import { fetchImage } from '@/lib/media/fetchImage';
+
+// Image proxy for media results: only public http(s) URLs, raster image types and
+// responses within MEDIA_PROXY_MAX_BYTES and MEDIA_PROXY_TIMEOUT_MS
+export async function GET(request: NextRequest) {
+  if (!getRequestUser(request)) return unauthorized();
+  const url = request.nextUrl.searchParams.get('url');
+  if (!url) {
+    return NextResponse.json({ error: 'url is required' }, { status: 400 });
+  }
+  try {
+    new URL(url);
+  } catch {
+    return NextResponse.json({ error: 'url must be an absolute URL' }, { status: 400 });
+  }
+
+  try {
+    const { data, contentType } = await fetchImage(url, getMediaConfig());
+    return new NextResponse(data, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(data.byteLength),
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`Media proxy could not load ${url}:`, message);
+    return NextResponse.json({ error: `Could not load image: ${message}` }, { status: 502 });
+  }
+}
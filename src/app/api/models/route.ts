@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getDefaultModel, getModelOptions } from '@/lib/llm';
+import { ModelsApiResponse } from '@/types';
+
+// Models the client may pick from; the allowlist itself lives in server config
+export async function GET() {
+  const response: ModelsApiResponse = {
+    models: getModelOptions(),
+    defaultModel: getDefaultModel(),
+  };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized, updateUserSettings } from '@/lib/auth';
+import { isSearchFocus } from '@/lib/focus';
+import { resolveModel } from '@/lib/llm';
+
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  return NextResponse.json({ settings: user.settings });
+}
+
+// Save the default model, focus or mode; settings left out keep their saved value
+export async function PATCH(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+
+  const { model, focus, mode } = await request.json().catch(() => ({}));
+  if (model !== undefined && (typeof model !== 'string' || !resolveModel(model))) {
+    return NextResponse.json({ error: `Model "${model}" is not available` }, { status: 400 });
+  }
+  if (focus !== undefined && !isSearchFocus(focus)) {
+    return NextResponse.json({ error: `Unknown focus "${focus}"` }, { status: 400 });
+  }
+  if (mode !== undefined && mode !== 'quick' && mode !== 'research') {
+    return NextResponse.json({ error: `Unknown mode "${mode}"` }, { status: 400 });
+  }
+
+  const updated = updateUserSettings(user.id, { model, focus, mode });
+  if (!updated) return unauthorized();
+  return NextResponse.json({ settings: updated.settings });
+}
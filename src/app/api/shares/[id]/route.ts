@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { getShare, revokeShare } from '@/lib/shareStore';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const share = getShare(id);
+  if (!share) {
+    return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+  }
+  return NextResponse.json({ share });
+}
+
+// Revoke the link. The signed-in owner may always; others prove ownership with the token
+// from POST /api/shares in an X-Share-Token header
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const user = getRequestUser(request);
+  const token = request.headers.get('x-share-token');
+  if (!user && !token) {
+    return NextResponse.json({ error: 'Sign in or send the X-Share-Token header' }, { status: 401 });
+  }
+
+  const result = revokeShare(id, { userId: user?.id, token });
+  if (result === 'not_found') {
+    return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+  }
+  if (result === 'forbidden') {
+    return NextResponse.json({ error: 'Invalid share token' }, { status: 403 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
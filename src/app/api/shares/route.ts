@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { CreateShareResponse, ShareInfo } from '@/types';
+import { createShare, listShares } from '@/lib/shareStore';
+
+// The signed-in user's live links, so they can be revoked from any browser
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const shares: ShareInfo[] = listShares(user.id);
+  return NextResponse.json({ shares });
+}
+
+// Publish a read-only snapshot of a chat, or of one message when messageId is given
+export async function POST(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return unauthorized();
+  const { chatId, messageId } = await request.json().catch(() => ({}));
+
+  if (typeof chatId !== 'string' || !chatId || (messageId !== undefined && typeof messageId !== 'string')) {
+    return NextResponse.json({ error: 'chatId must be a string, and messageId a string when given' }, { status: 400 });
+  }
+
+  const created = createShare(user.id, chatId, messageId);
+  if (!created) {
+    return NextResponse.json({ error: messageId ? 'Message not found' : 'Chat not found' }, { status: 404 });
+  }
+
+  const body: CreateShareResponse = {
+    id: created.share.id,
+    url: `/share/${created.share.id}`,
+    token: created.token,
+  };
+  return NextResponse.json(body, { status: 201 });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { getLlmProvider, getTitleModel, isLlmConfigured } from '@/lib/llm';
+import { consumeRateLimit, identifyClient } from '@/lib/rateLimit';
+import { apiError, apiErrorResponse, createCorrelationId, invalidRequest } from '@/lib/apiErrors';
+import { describeFailure } from '@/lib/classifyError';
+import { rateLimitedResponse } from '@/lib/searchApi';
+import { SEARCH_REQUEST_FIELDS } from '@/lib/searchRequest';
+import { validateFields } from '@/lib/validation';
+
+// Generate a chat title from its first question. Limited separately from searches, with no daily quota
+export async function POST(request: NextRequest) {
+  const correlationId = createCorrelationId(request.headers);
+  const user = getRequestUser(request);
+  if (!user) return apiErrorResponse(apiError('unauthorized', correlationId, { message: 'Sign in required' }));
+
+  const rateLimit = consumeRateLimit(identifyClient(request.headers, user.id), { scope: 'title' });
+  if (!rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit, correlationId);
+  }
+
+  const body = await request.json().catch(() => null);
+  if (body === null) {
+    return apiErrorResponse(apiError('invalid_json', correlationId));
+  }
+  const fieldErrors = validateFields({ query: SEARCH_REQUEST_FIELDS.query }, body);
+  if (fieldErrors.length > 0) {
+    return apiErrorResponse(invalidRequest(fieldErrors, correlationId));
+  }
+  const { query } = body as { query: string };
+  if (!isLlmConfigured()) {
+    return apiErrorResponse(apiError('not_configured', correlationId, { message: 'API keys not configured' }));
+  }
+
+  try {
+    console.log('Generating title for:', query);
+
+    const titleCompletion = await getLlmProvider().complete({
+      model: getTitleModel(),
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a helpful assistant that creates concise, descriptive titles for chat conversations. Create a title that captures the main topic or question being asked. Keep it under 50 characters and make it clear and engaging.'
+        },
+        {
+          role: 'user',
+          content: `Create a concise, descriptive title for a chat conversation that starts with this question: "${query}"\n\nThe title should:\n- Be under 50 characters\n- Capture the main topic\n- Be clear and engaging\n- Not include quotation marks\n\nTitle:`
+        }
+      ],
+      maxTokens: 50,
+      temperature: 0.3,
+    });
+
+    const title = titleCompletion.trim() || query.substring(0, 50);
+    return NextResponse.json({ title }, { headers: rateLimit.headers });
+  } catch (error) {
+    return apiErrorResponse(describeFailure(error, 'llm', correlationId));
+  }
+}
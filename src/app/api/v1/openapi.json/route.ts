@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOpenApiDocument } from '@/lib/openapi';
+
+// Machine-readable description of the public API
+export async function GET(request: NextRequest) {
+  return NextResponse.json(getOpenApiDocument(request.nextUrl.origin), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicSearchRequest } from '@/types';
+import { apiError, apiErrorResponse, createCorrelationId } from '@/lib/apiErrors';
+import { consumeRateLimit, identifyClient } from '@/lib/rateLimit';
+import { parseSearchRequest, rateLimitedResponse, searchResponse } from '@/lib/searchApi';
+
+// Public, versioned search API, described at /api/v1/openapi.json. Callers authenticate
+// with an API key as X-API-Key or a bearer token; fields outside PublicSearchRequest are ignored
+export async function POST(request: NextRequest) {
+  const correlationId = createCorrelationId(request.headers);
+  const client = identifyClient(request.headers);
+  if (client.kind !== 'key') {
+    return apiErrorResponse(
+      apiError('unauthorized', correlationId, { message: 'A valid API key is required (X-API-Key header or Authorization: Bearer)' }),
+      { 'WWW-Authenticate': 'Bearer' }
+    );
+  }
+
+  const rateLimit = consumeRateLimit(client);
+  if (!rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit, correlationId);
+  }
+
+  const body = await request.json().catch(() => null);
+  let publicBody: unknown = body;
+  if (body && typeof body === 'object') {
+    const { query, conversationContext, stream, providers, model, focus, mode, bypassCache } = body;
+    publicBody = { query, conversationContext, stream, providers, model, focus, mode, bypassCache } satisfies PublicSearchRequest;
+  }
+
+  const parsed = parseSearchRequest(publicBody, { user: null, headers: request.headers, correlationId });
+  const response = parsed instanceof NextResponse ? parsed : await searchResponse(parsed.params, parsed.stream, correlationId);
+  Object.entries(rateLimit.headers).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
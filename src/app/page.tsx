@@ -1,26 +1,57 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import SearchInput from '@/components/SearchInput';
 import SearchResults from '@/components/SearchResults';
 import ChatSidebar from '@/components/ChatSidebar';
+import ModelPicker from '@/components/ModelPicker';
+import FocusPicker from '@/components/FocusPicker';
+import ResearchProgressLog from '@/components/ResearchProgressLog';
+import SearchedQueries from '@/components/SearchedQueries';
+import ShareButton from '@/components/ShareButton';
+import ExportMenu from '@/components/ExportMenu';
+import UserQueryBubble from '@/components/UserQueryBubble';
+import DocumentAttachments from '@/components/DocumentAttachments';
 import { useChatHistory } from '@/hooks/useChatHistory';
-import { Sparkles, Menu, RefreshCw } from 'lucide-react';
-import { SearchResponse, SearchState } from '@/types';
+import { useChatDocuments } from '@/hooks/useChatDocuments';
+import { useAccount } from '@/hooks/useAccount';
+import { Sparkles, Menu, RefreshCw, Telescope, Folder } from 'lucide-react';
+import { ChatMessage, ModelOption, ModelsApiResponse, SearchApiRequest, SearchFocus, SearchMode, SearchResponse, SearchState } from '@/types';
+import { getActivePath, getPathTo, getSiblings } from '@/lib/chatBranches';
+import { readSearchStream } from '@/lib/stream';
+import { limitConversationContext, validateSearchRequest } from '@/lib/searchRequest';
+import { errorTitle, isApiError, MAX_SEARCH_ATTEMPTS, retryDelayMs, shouldRetrySearch } from '@/lib/searchRetry';
 
 export default function HomePage() {
   // Chat history hook with all functionality including AI title generation
   const {
     chats,
+    collections,
     currentChat,
     currentChatId,
     createNewChat,
     addMessageToChat,
     switchToChat,
+    selectBranch,
+    setChatModel,
     deleteChat,
-    clearAllChats
+    clearAllChats,
+    importChats,
+    renameChat,
+    setChatPinned,
+    moveChatToCollection,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    whenSynced
   } = useChatHistory();
 
+  // The signed-in user; their saved model, focus and mode are the defaults for new searches
+  const { user, saveSettings, signOut } = useAccount();
+
+  // Documents uploaded to the current chat are searched alongside the web
+  const chatDocuments = useChatDocuments(currentChatId, whenSynced);
+
   // Local search state for immediate UI updates
   const [searchState, setSearchState] = useState<SearchState>({
     isLoading: false,
@@ -35,9 +66,88 @@ export default function HomePage() {
   // Track current query for loading display
   const [currentQuery, setCurrentQuery] = useState<string>('');
 
-  const handleSearch = async (query: string) => {
+  // Focus mode applied to the next search
+  const [focus, setFocus] = useState<SearchFocus>('all');
+
+  // The current chat's collection adds its instructions to every answer
+  const activeCollection = collections.find(collection => collection.id === currentChat?.collectionId);
+
+  // Research mode trades speed for a multi-step search and a long-form report
+  const [mode, setMode] = useState<SearchMode>('quick');
+
+  // Models offered by the server; a chat remembers the model picked for it
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string>('');
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => response.ok ? response.json() : null)
+      .then((data: ModelsApiResponse | null) => {
+        if (data) {
+          setModels(data.models);
+          setSelectedModel(data.defaultModel);
+        }
+      })
+      .catch(error => console.error('Failed to load models:', error));
+  }, []);
+
+  // Apply the saved settings once both the account and the model list are loaded
+  const [settingsApplied, setSettingsApplied] = useState(false);
+  useEffect(() => {
+    if (!user || models.length === 0 || settingsApplied) return;
+    const { model, focus: savedFocus, mode: savedMode } = user.settings;
+    if (model && models.some(m => m.id === model)) setSelectedModel(model);
+    if (savedFocus) setFocus(savedFocus);
+    if (savedMode) setMode(savedMode);
+    setSettingsApplied(true);
+  }, [user, models, settingsApplied]);
+
+  const handleFocusChange = (newFocus: SearchFocus) => {
+    setFocus(newFocus);
+    saveSettings({ focus: newFocus });
+  };
+
+  const handleModeToggle = () => {
+    const newMode = mode === 'research' ? 'quick' : 'research';
+    setMode(newMode);
+    saveSettings({ mode: newMode });
+  };
+
+  // Tick once a second while a rate limit countdown is showing
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!searchState.retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [searchState.retryAt]);
+  const retryInSeconds = searchState.retryAt ? Math.max(0, Math.ceil((searchState.retryAt - now) / 1000)) : 0;
+
+  // Fall back to the global choice when the chat's model is no longer offered
+  const activeModel = currentChat?.model && models.some(m => m.id === currentChat.model)
+    ? currentChat.model
+    : selectedModel;
+
+  const handleModelChange = (model: string) => {
+    setSelectedModel(model);
+    saveSettings({ model });
+    if (currentChatId) {
+      setChatModel(currentChatId, model);
+    }
+  };
+
+  // Parent of the version being asked while an edit or regeneration is loading; undefined otherwise
+  const [pendingParentId, setPendingParentId] = useState<string | null | undefined>(undefined);
+
+  // Refresh buttons pass bypassCache so the server searches and answers again; parentId
+  // asks the query as a new version of a turn instead of continuing the active branch
+  const handleSearch = async (
+    query: string,
+    { bypassCache = false, parentId }: { bypassCache?: boolean; parentId?: string | null } = {}
+  ) => {
     console.log('Searching for:', query);
     setCurrentQuery(query);
+    setPendingParentId(parentId);
     
     // Create new chat immediately if needed (for instant sidebar feedback)
     let chatId = currentChatId;
@@ -50,59 +160,172 @@ export default function HomePage() {
       ...prev,
       isLoading: true,
       error: null,
+      failure: undefined,
+      retryAt: undefined,
+      failedSearch: undefined,
       results: null,
+      progress: [],
       searchHistory: [query, ...prev.searchHistory.filter(h => h !== query)].slice(0, 5)
     }));
 
-    try {
-      // Prepare conversation context for AI continuity
-      const conversationContext = currentChat ? currentChat.messages.map(msg => ({
-        query: msg.query,
-        answer: msg.response.answer
-      })) : [];
+    // Prepare conversation context for AI continuity, following only the branch being answered
+    const contextMessages = !currentChat
+      ? []
+      : parentId !== undefined ? getPathTo(currentChat.messages, parentId) : getActivePath(currentChat);
+    // Long chats send only their latest turns, cut to the request limits
+    const conversationContext = limitConversationContext(contextMessages.map(msg => ({
+      query: msg.query,
+      answer: msg.response.answer
+    })));
+    const request: SearchApiRequest = {
+      query,
+      conversationContext: conversationContext.length > 0 ? conversationContext : undefined,
+      model: activeModel || undefined,
+      focus,
+      mode,
+      collectionId: activeCollection?.id,
+      chatId,
+      bypassCache: bypassCache || undefined,
+      stream: true
+    };
+
+    // One attempt: errors are thrown as the server's ApiError when it sent one
+    const requestAnswer = async (): Promise<SearchResponse> => {
+      // Catch requests the server would reject without sending them
+      const fieldErrors = validateSearchRequest(request);
+      if (fieldErrors.length > 0) {
+        throw new Error(fieldErrors[0].message);
+      }
 
       const response = await fetch('/api/search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          query,
-          conversationContext: conversationContext.length > 0 ? conversationContext : undefined
-        }),
+        body: JSON.stringify(request),
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}`);
+        const errorData = await response.json().catch(() => null);
+        throw isApiError(errorData) ? errorData : new Error(errorData?.error || `HTTP ${response.status}`);
       }
 
-      const data: SearchResponse = await response.json();
+      // Render the answer as it streams in; the final event carries the full response
+      let data: SearchResponse | null = null;
+      await readSearchStream(response, event => {
+        switch (event.type) {
+          case 'progress':
+            setSearchState(prev => ({
+              ...prev,
+              progress: [...(prev.progress ?? []), event.progress]
+            }));
+            break;
+          case 'sources':
+            setSearchState(prev => ({
+              ...prev,
+              results: {
+                query: event.query,
+                answer: '',
+                sources: event.sources,
+                media: event.media,
+                citations: [],
+                searchQueries: event.searchQueries
+              }
+            }));
+            break;
+          case 'delta':
+            setSearchState(prev => prev.results ? ({
+              ...prev,
+              results: { ...prev.results, answer: prev.results.answer + event.text }
+            }) : prev);
+            break;
+          case 'citations':
+            setSearchState(prev => prev.results ? ({
+              ...prev,
+              results: { ...prev.results, citations: event.citations, claims: event.claims }
+            }) : prev);
+            break;
+          case 'done':
+            data = event.response;
+            break;
+          case 'error':
+            throw event;
+        }
+      });
+
+      if (!data) {
+        throw new Error('Search stream ended before the answer was complete');
+      }
+      return data;
+    };
+
+    try {
+      // Retryable failures (timeouts, unreachable or busy providers) are retried with backoff
+      let data: SearchResponse | undefined;
+      for (let attempt = 1; !data; attempt++) {
+        try {
+          data = await requestAnswer();
+        } catch (error) {
+          if (!isApiError(error) || !shouldRetrySearch(error, attempt)) throw error;
+          console.warn(`Search attempt ${attempt} failed (${error.code}), retrying`);
+          setSearchState(prev => ({ ...prev, results: null, progress: [], retryAttempt: attempt + 1 }));
+          await new Promise(resolve => setTimeout(resolve, retryDelayMs(attempt)));
+        }
+      }
       
       // Add to chat history (this will auto-generate AI title for first message)
-      await addMessageToChat(query, data);
+      await addMessageToChat(query, data, focus, parentId);
       
       // Update local state for immediate display
       setSearchState(prev => ({
         ...prev,
         isLoading: false,
         error: null,
+        retryAttempt: undefined,
         results: data
       }));
 
     } catch (error) {
       console.error('Search error:', error);
+      const failure = isApiError(error) ? error : undefined;
+      // Rate limits count down until searching is allowed again
+      const retryAfter = failure?.code === 'rate_limited' || failure?.code === 'quota_exceeded'
+        ? failure.retryAfter ?? 60
+        : undefined;
       setSearchState(prev => ({
         ...prev,
         isLoading: false,
-        error: error instanceof Error ? error.message : 'Search failed',
+        error: failure?.error ?? (error instanceof Error ? error.message : 'Search failed'),
+        failure,
+        retryAttempt: undefined,
+        retryAt: retryAfter !== undefined ? Date.now() + retryAfter * 1000 : undefined,
+        failedSearch: { query, bypassCache, parentId },
         results: null
       }));
     } finally {
       setCurrentQuery('');
+      setPendingParentId(undefined);
     }
   };
 
-  const handleNewChat = () => {
-    createNewChat();
+  const handleRefresh = (query: string) => handleSearch(query, { bypassCache: true });
+
+  // Edits and regenerations are added as another version next to the original message
+  const handleEditQuery = (message: ChatMessage, query: string) =>
+    handleSearch(query, { parentId: message.parentId ?? null });
+
+  const handleRegenerate = (message: ChatMessage) =>
+    handleSearch(message.query, { bypassCache: true, parentId: message.parentId ?? null });
+
+  // Attaching to a fresh page starts a chat to hold the documents
+  const handleUploadDocuments = (files: File[]) => {
+    const chatId = currentChatId ?? createNewChat();
+    chatDocuments.upload(chatId, files);
+  };
+
+  const handleNewChat = (collectionId?: string) => {
+    createNewChat(undefined, collectionId);
+    const defaultFocus = collections.find(collection => collection.id === collectionId)?.defaultFocus;
+    if (defaultFocus) setFocus(defaultFocus);
+    setSidebarOpen(false);
     setSearchState({ 
       isLoading: false, 
       error: null, 
@@ -113,6 +336,9 @@ export default function HomePage() {
 
   const handleSwitchToChat = (chatId: string) => {
     switchToChat(chatId);
+    const collectionId = chats.find(chat => chat.id === chatId)?.collectionId;
+    const defaultFocus = collections.find(collection => collection.id === collectionId)?.defaultFocus;
+    if (defaultFocus) setFocus(defaultFocus);
     setSearchState({ 
       isLoading: false, 
       error: null, 
@@ -121,6 +347,27 @@ export default function HomePage() {
     });
   };
 
+  // Open a chat from a history search hit and bring the matching message into view
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+
+  const handleOpenMessage = (chatId: string, messageId: string) => {
+    handleSwitchToChat(chatId);
+    // A hit in another version of a turn switches to that branch
+    const chat = chats.find(c => c.id === chatId);
+    if (chat && !getActivePath(chat).some(message => message.id === messageId)) {
+      selectBranch(chatId, messageId);
+    }
+    setFocusedMessageId(messageId);
+    setSidebarOpen(false);
+  };
+
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    const timer = setTimeout(() => setFocusedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focusedMessageId, currentChat?.id]);
+
   const handleClearResults = () => {
     setSearchState(prev => ({
       ...prev,
@@ -140,11 +387,17 @@ export default function HomePage() {
     });
   };
 
+  // Repeat the failed search as it was asked, including a refresh or a new version of a turn
   const handleRetry = () => {
-    if (searchState.results?.query) {
+    if (searchState.failedSearch) {
+      const { query, bypassCache, parentId } = searchState.failedSearch;
+      handleSearch(query, { bypassCache, parentId });
+    } else if (searchState.results?.query) {
       handleSearch(searchState.results.query);
     } else if (currentQuery) {
       handleSearch(currentQuery);
+    } else if (searchState.searchHistory[0]) {
+      handleSearch(searchState.searchHistory[0]);
     }
   };
 
@@ -172,6 +425,13 @@ export default function HomePage() {
   // Check if we're viewing an existing chat with messages
   const isViewingExistingChat = currentChat && currentChat.messages.length > 0;
 
+  // The active branch; while a new version loads, the turns before it
+  const displayedMessages = !currentChat
+    ? []
+    : searchState.isLoading && pendingParentId !== undefined
+      ? getPathTo(currentChat.messages, pendingParentId)
+      : getActivePath(currentChat);
+
   return (
     <div className="flex min-h-screen bg-gray-50">
       {/* Chat Sidebar with full functionality */}
@@ -182,6 +442,17 @@ export default function HomePage() {
         onSwitchChat={handleSwitchToChat}
         onDeleteChat={deleteChat}
         onClearAll={handleClearAllChats}
+        onImportChats={importChats}
+        onOpenMessage={handleOpenMessage}
+        collections={collections}
+        onRenameChat={renameChat}
+        onPinChat={setChatPinned}
+        onMoveChat={moveChatToCollection}
+        onCreateCollection={createCollection}
+        onUpdateCollection={updateCollection}
+        onDeleteCollection={deleteCollection}
+        user={user}
+        onSignOut={signOut}
         isOpen={sidebarOpen}
         onToggle={() => setSidebarOpen(!sidebarOpen)}
       />
@@ -249,17 +520,30 @@ export default function HomePage() {
                         {currentChat.title}
                       </h2>
                       <p className="text-blue-700 text-sm">
+                        {activeCollection && (
+                          <span className="inline-flex items-center mr-1" title={activeCollection.instructions || undefined}>
+                            <Folder className="h-3.5 w-3.5 mr-1" />
+                            {activeCollection.name} •
+                          </span>
+                        )}
                         {currentChat.messages.length} message{currentChat.messages.length !== 1 ? 's' : ''} • 
                         Started {new Date(currentChat.createdAt).toLocaleDateString()}
                       </p>
                     </div>
-                    <button
-                      onClick={() => handleSearch(currentChat.messages[currentChat.messages.length - 1]?.query || '')}
-                      className="p-2 text-blue-600 hover:bg-blue-100 rounded-lg transition-colors"
-                      title="Refresh last query"
-                    >
-                      <RefreshCw className="h-4 w-4" />
-                    </button>
+                    <div className="flex items-center space-x-1">
+                      <ExportMenu chats={[currentChat]} title={currentChat.title} className="text-blue-700 hover:text-blue-900 hover:bg-blue-100" />
+                      <ShareButton target={{ chatId: currentChat.id }} label="Share chat" className="text-blue-700 hover:text-blue-900 hover:bg-blue-100" />
+                      <button
+                        onClick={() => {
+                          const last = displayedMessages[displayedMessages.length - 1];
+                          if (last) handleRegenerate(last);
+                        }}
+                        className="p-2 text-blue-600 hover:bg-blue-100 rounded-lg transition-colors"
+                        title="Regenerate last answer"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </button>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -269,18 +553,32 @@ export default function HomePage() {
             {searchState.error && (
               <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg">
                 <h3 className="text-lg font-semibold text-red-800 mb-2">
-                  Search Error
+                  {errorTitle(searchState.failure?.stage)}
                 </h3>
-                <p className="text-red-700 mb-4">{searchState.error}</p>
+                <p className="text-red-700 mb-4">
+                  {searchState.error}
+                  {retryInSeconds > 0 && (
+                    <span className="ml-1 font-medium">
+                      You can search again in {Math.floor(retryInSeconds / 60)}:{String(retryInSeconds % 60).padStart(2, '0')}.
+                    </span>
+                  )}
+                </p>
+                {searchState.failure?.correlationId && (
+                  <p className="-mt-2 mb-4 text-xs text-red-600">
+                    Reference: <code>{searchState.failure.correlationId}</code>
+                  </p>
+                )}
                 <div className="flex space-x-3">
                   <button
                     onClick={handleRetry}
-                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium"
+                    disabled={retryInSeconds > 0}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium
+                             disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Try Again
+                    {retryInSeconds > 0 ? `Try Again in ${retryInSeconds}s` : 'Try Again'}
                   </button>
                   <button
-                    onClick={() => setSearchState(prev => ({ ...prev, error: null }))}
+                    onClick={() => setSearchState(prev => ({ ...prev, error: null, failure: undefined, retryAt: undefined }))}
                     className="px-4 py-2 bg-white border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors text-sm font-medium"
                   >
                     Dismiss
@@ -293,21 +591,24 @@ export default function HomePage() {
             {(isViewingExistingChat || searchState.results || searchState.isLoading || currentQuery) && (
               <div className="space-y-6 mb-8">
                 {/* Previous messages from chat history - ONLY show if no current results */}
-                {isViewingExistingChat && !searchState.results && !searchState.isLoading && currentChat.messages
-                  .slice()
-                  .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+                {isViewingExistingChat && !searchState.results && !searchState.isLoading && displayedMessages
                   .map((message, index) => (
-                    <div key={message.id} className="space-y-4">
+                    <div
+                      key={message.id}
+                      id={`message-${message.id}`}
+                      className={`space-y-4 scroll-mt-4 rounded-lg transition-shadow ${
+                        focusedMessageId === message.id ? 'ring-2 ring-yellow-300 ring-offset-4' : ''
+                      }`}
+                    >
                       {/* User Query */}
-                      <div className="flex justify-end">
-                        <div className="max-w-[80%] bg-blue-600 text-white rounded-lg px-4 py-2">
-                          <p className="text-sm font-medium mb-1">You</p>
-                          <p>{message.query}</p>
-                          <p className="text-xs text-blue-100 mt-1">
-                            {new Date(message.timestamp).toLocaleString()}
-                          </p>
-                        </div>
-                      </div>
+                      <UserQueryBubble
+                        message={message}
+                        versions={getSiblings(currentChat.messages, message)}
+                        onSelectVersion={(messageId) => selectBranch(currentChat.id, messageId)}
+                        onEdit={(query) => handleEditQuery(message, query)}
+                        disabled={searchState.isLoading}
+                      />
+                      <SearchedQueries query={message.query} searchQueries={message.response.searchQueries} />
                       
                       {/* AI Response */}
                       <div className="flex justify-start">
@@ -319,6 +620,8 @@ export default function HomePage() {
                           <SearchResults
                             results={message.response}
                             onNewSearch={handleSearch}
+                            onRefresh={() => handleRegenerate(message)}
+                            shareTarget={{ chatId: currentChat.id, messageId: message.id }}
                             onClear={() => {}}
                           />
                         </div>
@@ -327,21 +630,24 @@ export default function HomePage() {
                   ))}
 
                 {/* Show ALL messages including current search when there are results */}
-                {(searchState.results || searchState.isLoading) && isViewingExistingChat && currentChat.messages
-                  .slice()
-                  .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+                {(searchState.results || searchState.isLoading) && isViewingExistingChat && displayedMessages
                   .map((message, index) => (
-                    <div key={message.id} className="space-y-4">
+                    <div
+                      key={message.id}
+                      id={`message-${message.id}`}
+                      className={`space-y-4 scroll-mt-4 rounded-lg transition-shadow ${
+                        focusedMessageId === message.id ? 'ring-2 ring-yellow-300 ring-offset-4' : ''
+                      }`}
+                    >
                       {/* User Query */}
-                      <div className="flex justify-end">
-                        <div className="max-w-[80%] bg-blue-600 text-white rounded-lg px-4 py-2">
-                          <p className="text-sm font-medium mb-1">You</p>
-                          <p>{message.query}</p>
-                          <p className="text-xs text-blue-100 mt-1">
-                            {new Date(message.timestamp).toLocaleString()}
-                          </p>
-                        </div>
-                      </div>
+                      <UserQueryBubble
+                        message={message}
+                        versions={getSiblings(currentChat.messages, message)}
+                        onSelectVersion={(messageId) => selectBranch(currentChat.id, messageId)}
+                        onEdit={(query) => handleEditQuery(message, query)}
+                        disabled={searchState.isLoading}
+                      />
+                      <SearchedQueries query={message.query} searchQueries={message.response.searchQueries} />
                       
                       {/* AI Response */}
                       <div className="flex justify-start">
@@ -353,6 +659,8 @@ export default function HomePage() {
                           <SearchResults
                             results={message.response}
                             onNewSearch={handleSearch}
+                            onRefresh={() => handleRegenerate(message)}
+                            shareTarget={{ chatId: currentChat.id, messageId: message.id }}
                             onClear={() => {}}
                           />
                         </div>
@@ -371,6 +679,7 @@ export default function HomePage() {
                         <p className="text-xs text-blue-100 mt-1">Just now</p>
                       </div>
                     </div>
+                    <SearchedQueries query={currentQuery} searchQueries={searchState.results?.searchQueries} />
                     
                     {/* Loading response */}
                     <div className="flex justify-start">
@@ -379,26 +688,42 @@ export default function HomePage() {
                           <Sparkles className="h-4 w-4 text-blue-600 mr-2" />
                           <p className="text-sm font-medium text-gray-900">Romnexity</p>
                         </div>
-                        <div className="animate-pulse">
-                          <div className="flex items-center space-x-2 mb-4">
-                            <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce"></div>
-                            <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce delay-100"></div>
-                            <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce delay-200"></div>
-                            <span className="ml-2 text-blue-600 font-medium text-sm">Searching...</span>
-                          </div>
-                          <div className="space-y-3">
-                            <div className="h-3 bg-gray-200 rounded w-3/4"></div>
-                            <div className="h-3 bg-gray-200 rounded w-1/2"></div>
-                            <div className="h-3 bg-gray-200 rounded w-5/6"></div>
+                        {searchState.results ? (
+                          <SearchResults
+                            results={searchState.results}
+                            onNewSearch={handleSearch}
+                            onRefresh={handleRefresh}
+                            onClear={() => {}}
+                            isStreaming
+                          />
+                        ) : searchState.progress && searchState.progress.length > 0 ? (
+                          <ResearchProgressLog progress={searchState.progress} />
+                        ) : (
+                          <div className="animate-pulse">
+                            <div className="flex items-center space-x-2 mb-4">
+                              <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce"></div>
+                              <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce delay-100"></div>
+                              <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce delay-200"></div>
+                              <span className="ml-2 text-blue-600 font-medium text-sm">
+                                {searchState.retryAttempt
+                                  ? `Retrying (attempt ${searchState.retryAttempt} of ${MAX_SEARCH_ATTEMPTS})...`
+                                  : 'Searching...'}
+                              </span>
+                            </div>
+                            <div className="space-y-3">
+                              <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+                              <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                              <div className="h-3 bg-gray-200 rounded w-5/6"></div>
+                            </div>
                           </div>
-                        </div>
+                        )}
                       </div>
                     </div>
                   </div>
                 )}
 
                 {/* Current search results - ONLY for new chats or first-time results */}
-                {searchState.results && !isViewingExistingChat && (
+                {searchState.results && !searchState.isLoading && !isViewingExistingChat && (
                   <div className="space-y-4">
                     {/* Show user query */}
                     <div className="flex justify-end">
@@ -408,6 +733,7 @@ export default function HomePage() {
                         <p className="text-xs text-blue-100 mt-1">Just now</p>
                       </div>
                     </div>
+                    <SearchedQueries query={searchState.results.query} searchQueries={searchState.results.searchQueries} />
                     
                     {/* AI Response */}
                     <div className="flex justify-start">
@@ -419,6 +745,7 @@ export default function HomePage() {
                         <SearchResults
                           results={searchState.results}
                           onNewSearch={handleSearch}
+                          onRefresh={handleRefresh}
                           onClear={handleClearResults}
                         />
                       </div>
@@ -479,6 +806,49 @@ export default function HomePage() {
                 placeholder={getContinuationPrompt()}
               />
             </div>
+
+            <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <FocusPicker
+                  value={focus}
+                  onChange={handleFocusChange}
+                  disabled={searchState.isLoading}
+                />
+                <button
+                  type="button"
+                  onClick={handleModeToggle}
+                  disabled={searchState.isLoading}
+                  aria-pressed={mode === 'research'}
+                  title="Plan sub-questions, read more sources and write a long-form report"
+                  className={`inline-flex items-center space-x-1 px-2.5 py-1 text-sm rounded-full border transition-colors
+                            disabled:cursor-not-allowed disabled:opacity-50 ${
+                    mode === 'research'
+                      ? 'bg-purple-600 border-purple-600 text-white'
+                      : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50 hover:border-gray-300'
+                  }`}
+                >
+                  <Telescope className="h-3.5 w-3.5" />
+                  <span>Research</span>
+                </button>
+                <DocumentAttachments
+                  documents={chatDocuments.documents}
+                  uploading={chatDocuments.uploading}
+                  error={chatDocuments.error}
+                  onUpload={handleUploadDocuments}
+                  onRemove={chatDocuments.remove}
+                  onDismissError={chatDocuments.dismissError}
+                  disabled={searchState.isLoading}
+                />
+              </div>
+              {models.length > 1 && (
+                <ModelPicker
+                  models={models}
+                  value={activeModel}
+                  onChange={handleModelChange}
+                  disabled={searchState.isLoading}
+                />
+              )}
+            </div>
             
             {/* Suggested follow-up questions for existing chats */}
             {isViewingExistingChat && !searchState.isLoading && !searchState.results && (
@@ -0,0 +1,57 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { SharedThread } from '@/types';
+import { getShare } from '@/lib/shareStore';
+import SharedThreadView from '@/components/SharedThreadView';
+
+interface SharePageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Shares can be revoked at any time, so never serve a prerendered copy
+export const dynamic = 'force-dynamic';
+
+// The first answer without citation markers, cut to a preview length
+function describeShare(share: SharedThread): string {
+  const answer = share.messages[0]?.response.answer.replace(/\s*\[\d+\]/g, '').replace(/\s+/g, ' ').trim() ?? '';
+  return answer.length > 200 ? `${answer.substring(0, 197)}...` : answer;
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const { id } = await params;
+  const share = getShare(id);
+  if (!share) {
+    return { title: 'Link not found · Romnexity', robots: { index: false } };
+  }
+
+  const description = describeShare(share);
+  return {
+    // SITE_URL makes the OpenGraph URLs absolute for link previews
+    metadataBase: process.env.SITE_URL ? new URL(process.env.SITE_URL) : undefined,
+    title: `${share.title} · Romnexity`,
+    description,
+    openGraph: {
+      type: 'article',
+      siteName: 'Romnexity',
+      title: share.title,
+      description,
+      url: `/share/${share.id}`,
+      publishedTime: share.createdAt.toISOString(),
+    },
+    twitter: {
+      card: 'summary',
+      title: share.title,
+      description,
+    },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { id } = await params;
+  const share = getShare(id);
+  if (!share) {
+    notFound();
+  }
+
+  return <SharedThreadView share={share} />;
+}
@@ -0,0 +1,40 @@
+import type { Metadata } from 'next';
+import { countUsers, getAuthProviders, isSignupAllowed } from '@/lib/auth';
+import SignInForm from '@/components/SignInForm';
+
+interface SignInPageProps {
+  searchParams: Promise<{ next?: string }>;
+}
+
+// Whether sign-up is open changes when the first account is created
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Sign in · Romnexity',
+  robots: { index: false },
+};
+
+// Only same-site paths, so the link cannot send people elsewhere after signing in. Parsing it
+// the way the browser will catches tricks such as /\evil.com, which browsers read as //evil.com
+function safeNext(next?: string): string {
+  if (!next || !next.startsWith('/') || next.includes('\\')) return '/';
+  const origin = 'http://romnexity.invalid';
+  const url = new URL(next, origin);
+  // Dot segments can leave a // path behind, as in /.//evil.com
+  if (url.origin !== origin || url.pathname.startsWith('//')) return '/';
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { next } = await searchParams;
+  const providers = getAuthProviders().map(({ id, name, type }) => ({ id, name, type }));
+
+  return (
+    <SignInForm
+      next={safeNext(next)}
+      providers={providers}
+      signupAllowed={isSignupAllowed()}
+      firstAccount={countUsers() === 0}
+    />
+  );
+}
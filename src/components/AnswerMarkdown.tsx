@@ -0,0 +1,158 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import { Citation, CitationVerdict, ClaimVerification, SearchResult } from '@/types';
+import { answerSanitizeSchema, getUnsupportedSentences, remarkCitations } from '@/lib/answerMarkdown';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+
+interface AnswerMarkdownProps {
+  answer: string;
+  citations: Citation[];
+  sources: SearchResult[];
+  claims: ClaimVerification[];
+}
+
+// Chip colors by verification verdict; unverified citations keep the default blue
+export const chipStyles: Record<CitationVerdict | 'default', string> = {
+  default: 'bg-blue-100 text-blue-800 hover:bg-blue-200 border-blue-200',
+  supported: 'bg-blue-100 text-blue-800 hover:bg-blue-200 border-blue-200',
+  weak: 'bg-amber-100 text-amber-800 hover:bg-amber-200 border-amber-300',
+  unsupported: 'bg-red-100 text-red-800 hover:bg-red-200 border-red-300',
+};
+
+// Fenced code with a copy button; the text is read from the rendered block so it matches what is shown
+function CodeBlock({ children }: { children?: React.ReactNode }) {
+  const ref = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(ref.current?.textContent ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <div className="group relative my-4">
+      <pre
+        ref={ref}
+        className="overflow-x-auto rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm leading-relaxed
+                 [&>code]:p-0 [&>code]:bg-transparent"
+      >
+        {children}
+      </pre>
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 p-1.5 text-gray-500 bg-white border border-gray-200 rounded-md
+                 opacity-0 group-hover:opacity-100 hover:text-gray-900 transition-opacity"
+        title="Copy code"
+      >
+        {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+      </button>
+    </div>
+  );
+}
+
+// Render an answer as sanitized Markdown with GFM tables, math, highlighted code and
+// citation chips. While streaming, citations are not final yet, so chips fall back to the
+// numbered source once it is known and stay inert until then
+export default function AnswerMarkdown({ answer, citations, sources, claims }: AnswerMarkdownProps) {
+  const unsupportedSentences = useMemo(() => getUnsupportedSentences(claims), [claims]);
+
+  const components: Components = {
+    cite: ({ node }) => {
+      const citationNumber = Number(node?.properties.dataCitation);
+      const sentenceIndex = Number(node?.properties.dataSentence);
+      const citation = citations.find(c => c.index === citationNumber) ?? sources[citationNumber - 1];
+      if (!citation) {
+        return (
+          <span className="inline-flex items-center mx-0.5 px-1.5 py-0.5 text-xs font-medium not-italic bg-gray-100 text-gray-500 rounded border border-gray-200">
+            {citationNumber}
+          </span>
+        );
+      }
+
+      const claim = claims.find(c => c.sentenceIndex === sentenceIndex && c.citationIndex === citationNumber);
+      const tooltip = claim
+        ? `${citation.title}\n${claim.verdict === 'unsupported' ? 'Not supported by this source' : `“${claim.quote}”`}`
+        : citation.title;
+      return (
+        <a
+          href={citation.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`inline-flex items-center mx-0.5 px-1.5 py-0.5 text-xs font-medium not-italic no-underline
+                   rounded transition-colors border ${chipStyles[claim?.verdict ?? 'default']}`}
+          title={tooltip}
+        >
+          {citationNumber}
+        </a>
+      );
+    },
+    // Other spans come from KaTeX and keep all of their attributes
+    span: ({ node, ...props }) => node?.properties.dataUnsupported !== undefined ? (
+      <span
+        className="underline decoration-wavy decoration-red-400 underline-offset-4"
+        title="None of the cited sources support this sentence"
+      >
+        {props.children}
+      </span>
+    ) : (
+      <span {...props} />
+    ),
+    pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+    code: ({ className, children }) => (
+      <code className={`${className ?? ''} px-1 py-0.5 text-sm bg-gray-100 text-gray-800 rounded`}>{children}</code>
+    ),
+    a: ({ href, children }) => (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+        {children}
+      </a>
+    ),
+    h1: ({ children }) => <h1 className="mt-6 mb-3 text-2xl font-bold text-gray-900">{children}</h1>,
+    h2: ({ children }) => <h2 className="mt-6 mb-3 text-xl font-semibold text-gray-900">{children}</h2>,
+    h3: ({ children }) => <h3 className="mt-5 mb-2 text-lg font-semibold text-gray-900">{children}</h3>,
+    h4: ({ children }) => <h4 className="mt-4 mb-2 font-semibold text-gray-900">{children}</h4>,
+    p: ({ children }) => <p className="my-3 leading-relaxed">{children}</p>,
+    ul: ({ children }) => <ul className="my-3 pl-6 list-disc space-y-1">{children}</ul>,
+    ol: ({ children, start }) => <ol start={start} className="my-3 pl-6 list-decimal space-y-1">{children}</ol>,
+    blockquote: ({ children }) => (
+      <blockquote className="my-4 pl-4 border-l-4 border-gray-200 text-gray-600 italic">{children}</blockquote>
+    ),
+    hr: () => <hr className="my-6 border-gray-200" />,
+    table: ({ children }) => (
+      <div className="my-4 overflow-x-auto">
+        <table className="min-w-full border-collapse border border-gray-200 text-sm">{children}</table>
+      </div>
+    ),
+    th: ({ children, style }) => (
+      <th style={style} className="px-3 py-2 border border-gray-200 bg-gray-50 font-semibold text-left">{children}</th>
+    ),
+    td: ({ children, style }) => <td style={style} className="px-3 py-2 border border-gray-200 align-top">{children}</td>,
+  };
+
+  return (
+    <div className="text-gray-800 [&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath, [remarkCitations, { answer, unsupportedSentences }]]}
+        // Sanitize the model's raw HTML before math and highlighting add their own markup
+        rehypePlugins={[rehypeRaw, [rehypeSanitize, answerSanitizeSchema], rehypeKatex, rehypeHighlight]}
+        components={components}
+      >
+        {answer}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Copy, KeyRound, Trash2, X } from 'lucide-react';
+import { ApiKeyInfo, CreateApiKeyResponse } from '@/types';
+
+interface ApiKeysDialogProps {
+  onClose: () => void;
+}
+
+function reviveApiKey(apiKey: ApiKeyInfo): ApiKeyInfo {
+  return {
+    ...apiKey,
+    createdAt: new Date(apiKey.createdAt),
+    lastUsedAt: apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt) : undefined,
+  };
+}
+
+async function readError(response: Response): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}));
+  return new Error(errorData.error || `HTTP ${response.status}`);
+}
+
+// Issue and revoke keys for the public API (/api/v1). A new key is shown once, right after it is issued
+export default function ApiKeysDialog({ onClose }: ApiKeysDialogProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKeyInfo[]>([]);
+  const [name, setName] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/keys')
+      .then(async response => {
+        if (!response.ok) throw await readError(response);
+        const data: { apiKeys: ApiKeyInfo[] } = await response.json();
+        setApiKeys(data.apiKeys.map(reviveApiKey));
+      })
+      .catch(loadError => setError(loadError.message));
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      const response = await fetch('/api/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      if (!response.ok) throw await readError(response);
+      const created: CreateApiKeyResponse = await response.json();
+      setApiKeys(prev => [reviveApiKey(created.apiKey), ...prev]);
+      setNewKey(created.key);
+      setCopied(false);
+      setName('');
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create key');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/keys/${id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw await readError(response);
+      setApiKeys(prev => prev.filter(apiKey => apiKey.id !== id));
+    } catch (revokeError) {
+      setError(revokeError instanceof Error ? revokeError.message : 'Failed to revoke key');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey);
+      setCopied(true);
+    } catch (copyError) {
+      console.error('Failed to copy:', copyError);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-25 p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-md bg-white rounded-lg shadow-lg p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">API keys</h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          Keys authenticate calls to <code className="text-gray-700">/api/v1/search</code>. The API is described
+          at{' '}
+          <a href="/api/v1/openapi.json" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+            /api/v1/openapi.json
+          </a>.
+        </p>
+
+        <form onSubmit={handleCreate} className="flex space-x-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            placeholder="Key name, e.g. Reporting service"
+            className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Create
+          </button>
+        </form>
+
+        {newKey && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+            <p className="text-sm text-green-800">Copy the new key now. It will not be shown again.</p>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 px-2 py-1 text-xs bg-white border border-green-200 rounded break-all">{newKey}</code>
+              <button onClick={handleCopy} className="p-1.5 text-green-700 hover:bg-green-100 rounded" title="Copy key">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <ul className="divide-y divide-gray-100">
+          {apiKeys.map(apiKey => (
+            <li key={apiKey.id} className="flex items-center justify-between py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{apiKey.name}</p>
+                <p className="text-xs text-gray-500">
+                  <code>{apiKey.prefix}…</code> · created {apiKey.createdAt.toLocaleDateString()}
+                  {apiKey.lastUsedAt ? ` · last used ${apiKey.lastUsedAt.toLocaleDateString()}` : ' · never used'}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(apiKey.id)}
+                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                title="Revoke key"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+          {apiKeys.length === 0 && (
+            <li className="flex items-center py-2 text-sm text-gray-500">
+              <KeyRound className="h-4 w-4 mr-2" />
+              No keys yet
+            </li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
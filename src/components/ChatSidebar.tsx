@@ -1,28 +1,147 @@
-import { useState } from 'react';
-import { Plus, MessageSquare, Trash2, X, Menu } from 'lucide-react';
-import { Chat } from '@/types';
+import { useMemo, useState } from 'react';
+import {
+  Plus, MessageSquare, Trash2, X, Menu, Upload, Search, SlidersHorizontal,
+  Pin, PinOff, Pencil, Folder, FolderPlus, FolderInput, Settings2, ChevronRight, ChevronDown, LogOut, KeyRound, Link2
+} from 'lucide-react';
+import { Chat, Collection, HighlightSegment, User } from '@/types';
+import { parseChatExport } from '@/lib/chatExport';
+import { useHistorySearch } from '@/hooks/useHistorySearch';
+import CollectionDialog, { CollectionFields } from './CollectionDialog';
+import ApiKeysDialog from './ApiKeysDialog';
+import SharesDialog from './SharesDialog';
+import ExportMenu from './ExportMenu';
 
 interface ChatSidebarProps {
   chats: Chat[];
+  collections?: Collection[];
   currentChatId: string | null;
-  onNewChat: () => void;
+  onNewChat: (collectionId?: string) => void;
   onSwitchChat: (chatId: string) => void;
   onDeleteChat: (chatId: string) => void;
   onClearAll: () => void;
+  onImportChats?: (chats: Chat[]) => { added: number; skipped: number };
+  onOpenMessage?: (chatId: string, messageId: string) => void;
+  onRenameChat?: (chatId: string, title: string) => void;
+  onPinChat?: (chatId: string, pinned: boolean) => void;
+  onMoveChat?: (chatId: string, collectionId: string | null) => void;
+  onCreateCollection?: (fields: CollectionFields) => void;
+  onUpdateCollection?: (collectionId: string, fields: CollectionFields) => void;
+  onDeleteCollection?: (collectionId: string) => void;
+  user?: User | null; // shown in the footer with a sign-out button
+  onSignOut?: () => void;
   isOpen?: boolean;
   onToggle?: () => void;
 }
 
 export default function ChatSidebar({
   chats,
+  collections = [],
   currentChatId,
   onNewChat,
   onSwitchChat,
   onDeleteChat,
   onClearAll,
+  onImportChats,
+  onOpenMessage,
+  onRenameChat,
+  onPinChat,
+  onMoveChat,
+  onCreateCollection,
+  onUpdateCollection,
+  onDeleteCollection,
+  user,
+  onSignOut,
   isOpen = false,
   onToggle
 }: ChatSidebarProps) {
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const search = useHistorySearch();
+
+  // Inline rename and move-to-collection act on one chat at a time
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [movingChatId, setMovingChatId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  // null while closed; 'new' or the id of the collection being edited
+  const [dialogFor, setDialogFor] = useState<string | null>(null);
+  const [showApiKeys, setShowApiKeys] = useState(false);
+  const [showShares, setShowShares] = useState(false);
+
+  // Pinned chats come first whatever their collection; chats of a deleted collection are ungrouped
+  const groups = useMemo(() => {
+    const collectionIds = new Set(collections.map(collection => collection.id));
+    return {
+      pinned: chats.filter(chat => chat.pinned),
+      byCollection: new Map(collections.map(collection => [
+        collection.id,
+        chats.filter(chat => !chat.pinned && chat.collectionId === collection.id)
+      ])),
+      ungrouped: chats.filter(chat => !chat.pinned && !(chat.collectionId && collectionIds.has(chat.collectionId))),
+    };
+  }, [chats, collections]);
+
+  const toggleCollapsed = (collectionId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(collectionId)) next.delete(collectionId); else next.add(collectionId);
+      return next;
+    });
+  };
+
+  const startRename = (chat: Chat) => {
+    setRenamingChatId(chat.id);
+    setRenameText(chat.title);
+  };
+
+  const finishRename = () => {
+    if (renamingChatId && renameText.trim()) {
+      const chat = chats.find(c => c.id === renamingChatId);
+      if (chat && chat.title !== renameText.trim()) onRenameChat?.(renamingChatId, renameText);
+    }
+    setRenamingChatId(null);
+  };
+
+  // Domains cited anywhere in the history, offered as filter suggestions
+  const citedDomains = useMemo(() => {
+    const domains = new Set<string>();
+    for (const chat of chats) {
+      for (const message of chat.messages) {
+        for (const citation of message.response.citations) {
+          try {
+            domains.add(new URL(citation.url).hostname.replace(/^www\./, ''));
+          } catch {
+            // Ignore citations without a valid URL
+          }
+        }
+      }
+    }
+    return [...domains].sort();
+  }, [chats]);
+
+  const renderHighlighted = (segments: HighlightSegment[]) => segments.map((segment, i) =>
+    segment.match
+      ? <mark key={i} className="bg-yellow-200 text-gray-900 rounded-sm">{segment.text}</mark>
+      : <span key={i}>{segment.text}</span>
+  );
+
+  // Read a JSON export, validate it and hand the chats to the history
+  const handleImportFile = async (file: File) => {
+    if (!onImportChats) return;
+    try {
+      const { chats: imported, invalid } = parseChatExport(JSON.parse(await file.text()));
+      const { added, skipped } = onImportChats(imported);
+      const parts = [`Imported ${added} chat${added !== 1 ? 's' : ''}`];
+      if (skipped > 0) parts.push(`${skipped} already in history`);
+      if (invalid > 0) parts.push(`${invalid} invalid`);
+      setImportMessage(parts.join(', '));
+    } catch (error) {
+      console.error('Failed to import chats:', error);
+      setImportMessage(error instanceof SyntaxError
+        ? 'This file is not valid JSON'
+        : error instanceof Error ? error.message : 'Import failed');
+    }
+  };
 
   const formatDate = (date: Date) => {
     const now = new Date();
@@ -35,6 +154,104 @@ export default function ChatSidebar({
     return date.toLocaleDateString();
   };
 
+  const renderChat = (chat: Chat) => (
+    <div
+      key={chat.id}
+      className={`group relative p-3 rounded-lg cursor-pointer transition-colors ${
+        currentChatId === chat.id
+          ? 'bg-blue-50 border border-blue-200'
+          : 'hover:bg-gray-50 border border-transparent'
+      }`}
+      onClick={() => onSwitchChat(chat.id)}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          {renamingChatId === chat.id ? (
+            <input
+              autoFocus
+              value={renameText}
+              onChange={(e) => setRenameText(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishRename();
+                if (e.key === 'Escape') setRenamingChatId(null);
+              }}
+              maxLength={200}
+              aria-label="Chat title"
+              className="w-full px-1 py-0.5 font-medium text-gray-900 border border-blue-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          ) : (
+            <h3 className="font-medium text-gray-900 truncate">
+              {chat.title}
+            </h3>
+          )}
+          <p className="text-sm text-gray-500 mt-1">
+            {chat.messages.length} message{chat.messages.length !== 1 ? 's' : ''}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            {formatDate(chat.updatedAt)}
+          </p>
+          {movingChatId === chat.id && (
+            <select
+              autoFocus
+              value={chat.collectionId ?? ''}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => {
+                onMoveChat?.(chat.id, e.target.value || null);
+                setMovingChatId(null);
+              }}
+              onBlur={() => setMovingChatId(null)}
+              aria-label="Move to collection"
+              className="mt-2 w-full px-2 py-1 text-sm border border-gray-200 rounded-lg bg-white"
+            >
+              <option value="">No collection</option>
+              {collections.map((collection) => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div
+          className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {onPinChat && (
+            <button
+              onClick={() => onPinChat(chat.id, !chat.pinned)}
+              className="p-1 text-gray-400 hover:text-gray-700"
+              title={chat.pinned ? 'Unpin' : 'Pin'}
+            >
+              {chat.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            </button>
+          )}
+          {onRenameChat && (
+            <button onClick={() => startRename(chat)} className="p-1 text-gray-400 hover:text-gray-700" title="Rename">
+              <Pencil className="h-4 w-4" />
+            </button>
+          )}
+          {onMoveChat && collections.length > 0 && (
+            <button
+              onClick={() => setMovingChatId(movingChatId === chat.id ? null : chat.id)}
+              className="p-1 text-gray-400 hover:text-gray-700"
+              title="Move to collection"
+            >
+              <FolderInput className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={() => onDeleteChat(chat.id)}
+            className="p-1 text-gray-400 hover:text-red-600"
+            title="Delete"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <>
       {/* Sidebar */}
@@ -54,77 +271,284 @@ export default function ChatSidebar({
             </button>
           </div>
           
-          <button
-            onClick={onNewChat}
-            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="h-4 w-4" />
-            <span>New Chat</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => onNewChat()}
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New Chat</span>
+            </button>
+            {onCreateCollection && (
+              <button
+                onClick={() => setDialogFor('new')}
+                className="p-2 text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors"
+                title="New collection"
+              >
+                <FolderPlus className="h-5 w-5" />
+              </button>
+            )}
+          </div>
+
+          <div className="mt-3 flex items-center space-x-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="search"
+                value={search.text}
+                onChange={(e) => search.setText(e.target.value)}
+                placeholder="Search chats"
+                className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              aria-pressed={showFilters}
+              title="Filter by date and cited domain"
+              className={`p-1.5 rounded-lg transition-colors ${
+                showFilters ? 'bg-blue-50 text-blue-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="mt-2 space-y-2 text-sm">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="date"
+                  value={search.filters.from}
+                  onChange={(e) => search.setFilters({ ...search.filters, from: e.target.value })}
+                  aria-label="From date"
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded-lg text-gray-700"
+                />
+                <span className="text-gray-400">to</span>
+                <input
+                  type="date"
+                  value={search.filters.to}
+                  onChange={(e) => search.setFilters({ ...search.filters, to: e.target.value })}
+                  aria-label="To date"
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded-lg text-gray-700"
+                />
+              </div>
+              <input
+                type="text"
+                list="cited-domains"
+                value={search.filters.domain}
+                onChange={(e) => search.setFilters({ ...search.filters, domain: e.target.value })}
+                placeholder="Cited domain, e.g. wikipedia.org"
+                className="w-full px-2 py-1 border border-gray-200 rounded-lg text-gray-700"
+              />
+              <datalist id="cited-domains">
+                {citedDomains.map((domain) => <option key={domain} value={domain} />)}
+              </datalist>
+              {search.isActive && (
+                <button onClick={search.clear} className="text-xs text-blue-600 hover:underline">
+                  Clear search and filters
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Chat List */}
         <div className="flex-1 overflow-y-auto p-4">
-          {chats.length === 0 ? (
+          {search.isActive ? (
+            <div className="space-y-2">
+              {search.error && <p className="text-sm text-red-600">{search.error}</p>}
+              {!search.error && search.results.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-8">
+                  {search.isSearching ? 'Searching...' : 'No matching messages'}
+                </p>
+              )}
+              {search.results.map((hit) => (
+                <button
+                  key={hit.messageId}
+                  onClick={() => onOpenMessage?.(hit.chatId, hit.messageId)}
+                  className="block w-full text-left p-3 rounded-lg border border-transparent hover:bg-gray-50 transition-colors"
+                >
+                  <p className="text-xs text-gray-400 truncate">
+                    {hit.chatTitle} · {formatDate(hit.timestamp)}
+                  </p>
+                  <p className="font-medium text-gray-900 text-sm mt-1 line-clamp-2">
+                    {renderHighlighted(hit.query)}
+                  </p>
+                  <p className="text-xs text-gray-600 mt-1 line-clamp-3">
+                    {renderHighlighted(hit.answer)}
+                  </p>
+                  {hit.sources && (
+                    <p className="text-xs text-gray-500 mt-1 truncate">
+                      Sources: {renderHighlighted(hit.sources)}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+          ) : chats.length === 0 && collections.length === 0 ? (
             <div className="text-center text-gray-500 py-8">
               <MessageSquare className="h-12 w-12 mx-auto mb-2 text-gray-300" />
               <p>No chats yet</p>
               <p className="text-sm">Start a new conversation</p>
             </div>
           ) : (
-            <div className="space-y-2">
-              {chats.map((chat) => (
-                <div
-                  key={chat.id}
-                  className={`group relative p-3 rounded-lg cursor-pointer transition-colors ${
-                    currentChatId === chat.id
-                      ? 'bg-blue-50 border border-blue-200'
-                      : 'hover:bg-gray-50 border border-transparent'
-                  }`}
-                  onClick={() => onSwitchChat(chat.id)}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1 min-w-0">
-                      <h3 className="font-medium text-gray-900 truncate">
-                        {chat.title}
-                      </h3>
-                      <p className="text-sm text-gray-500 mt-1">
-                        {chat.messages.length} message{chat.messages.length !== 1 ? 's' : ''}
-                      </p>
-                      <p className="text-xs text-gray-400 mt-1">
-                        {formatDate(chat.updatedAt)}
-                      </p>
+            <div className="space-y-4">
+              {groups.pinned.length > 0 && (
+                <section>
+                  <h3 className="flex items-center space-x-1 px-1 mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    <Pin className="h-3 w-3" />
+                    <span>Pinned</span>
+                  </h3>
+                  <div className="space-y-2">{groups.pinned.map(renderChat)}</div>
+                </section>
+              )}
+
+              {collections.map((collection) => {
+                const collectionChats = groups.byCollection.get(collection.id) ?? [];
+                const isCollapsed = collapsed.has(collection.id);
+                return (
+                  <section key={collection.id}>
+                    <div className="group flex items-center px-1 mb-1">
+                      <button
+                        onClick={() => toggleCollapsed(collection.id)}
+                        className="flex-1 min-w-0 flex items-center space-x-1 text-xs font-semibold uppercase tracking-wide text-gray-500 hover:text-gray-700"
+                        title={collection.instructions || undefined}
+                      >
+                        {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                        <Folder className="h-3 w-3" />
+                        <span className="truncate">{collection.name}</span>
+                        <span className="font-normal normal-case">({collectionChats.length})</span>
+                      </button>
+                      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => onNewChat(collection.id)}
+                          className="p-1 text-gray-400 hover:text-blue-600"
+                          title="New chat in this collection"
+                        >
+                          <Plus className="h-3.5 w-3.5" />
+                        </button>
+                        {onUpdateCollection && (
+                          <button
+                            onClick={() => setDialogFor(collection.id)}
+                            className="p-1 text-gray-400 hover:text-gray-700"
+                            title="Edit collection"
+                          >
+                            <Settings2 className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                        {onDeleteCollection && (
+                          <button
+                            onClick={() => {
+                              if (window.confirm(`Delete the collection "${collection.name}"? Its chats are kept.`)) {
+                                onDeleteCollection(collection.id);
+                              }
+                            }}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Delete collection"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </div>
                     </div>
-                    
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDeleteChat(chat.id);
-                      }}
-                      className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-600 transition-all"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
-                </div>
-              ))}
+                    {!isCollapsed && (
+                      collectionChats.length > 0
+                        ? <div className="space-y-2">{collectionChats.map(renderChat)}</div>
+                        : <p className="px-1 text-xs text-gray-400">No chats in this collection</p>
+                    )}
+                  </section>
+                );
+              })}
+
+              {groups.ungrouped.length > 0 && (
+                <section>
+                  {(groups.pinned.length > 0 || collections.length > 0) && (
+                    <h3 className="px-1 mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">Chats</h3>
+                  )}
+                  <div className="space-y-2">{groups.ungrouped.map(renderChat)}</div>
+                </section>
+              )}
             </div>
           )}
         </div>
 
         {/* Footer */}
-        {chats.length > 0 && (
-          <div className="p-4 border-t border-gray-200">
+        <div className="p-4 border-t border-gray-200 space-y-2">
+          <div className="flex items-center justify-between">
+            {onImportChats && (
+              <label className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors cursor-pointer">
+                <Upload className="h-4 w-4" />
+                <span>Import</span>
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+            <ExportMenu chats={chats} title="Romnexity chats" label="Export all" direction="up" />
+          </div>
+          {importMessage && (
+            <p className="text-xs text-gray-500">{importMessage}</p>
+          )}
+          {chats.length > 0 && (
             <button
               onClick={onClearAll}
               className="w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
             >
               Clear All Chats
             </button>
-          </div>
-        )}
+          )}
+          {user && (
+            <div className="flex items-center justify-between pt-2 border-t border-gray-100">
+              <span className="text-sm text-gray-600 truncate" title={user.email}>
+                {user.name || user.email}
+              </span>
+              <button
+                onClick={() => setShowShares(true)}
+                className="ml-auto p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Shared links"
+              >
+                <Link2 className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setShowApiKeys(true)}
+                className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                title="API keys"
+              >
+                <KeyRound className="h-4 w-4" />
+              </button>
+              {onSignOut && (
+                <button
+                  onClick={onSignOut}
+                  className="flex items-center space-x-1 px-2 py-1 text-sm text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                  title="Sign out"
+                >
+                  <LogOut className="h-4 w-4" />
+                  <span>Sign out</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
+      {showApiKeys && <ApiKeysDialog onClose={() => setShowApiKeys(false)} />}
+      {showShares && <SharesDialog onClose={() => setShowShares(false)} />}
+
+      {dialogFor && (
+        <CollectionDialog
+          collection={collections.find(collection => collection.id === dialogFor)}
+          onSave={(fields) => dialogFor === 'new' ? onCreateCollection?.(fields) : onUpdateCollection?.(dialogFor, fields)}
+          onClose={() => setDialogFor(null)}
+        />
+      )}
+
       {/* Overlay for mobile */}
       {isOpen && (
         <div
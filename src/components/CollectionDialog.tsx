@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Collection, SearchFocus } from '@/types';
+import { FOCUS_MODES, SEARCH_FOCUSES } from '@/lib/focus';
+
+export type CollectionFields = Pick<Collection, 'name' | 'instructions' | 'defaultFocus'>;
+
+interface CollectionDialogProps {
+  collection?: Collection; // edits this collection; creates a new one when omitted
+  onSave: (fields: CollectionFields) => void;
+  onClose: () => void;
+}
+
+export default function CollectionDialog({ collection, onSave, onClose }: CollectionDialogProps) {
+  const [name, setName] = useState(collection?.name ?? '');
+  const [instructions, setInstructions] = useState(collection?.instructions ?? '');
+  const [defaultFocus, setDefaultFocus] = useState<SearchFocus | ''>(collection?.defaultFocus ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({
+      name: name.trim(),
+      instructions: instructions.trim() || undefined,
+      defaultFocus: defaultFocus || undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-25 p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-lg shadow-lg p-5 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {collection ? 'Edit collection' : 'New collection'}
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Name</span>
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            placeholder="e.g. Thesis research"
+            className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Instructions</span>
+          <textarea
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            rows={4}
+            maxLength={2000}
+            placeholder="Added to every answer in this collection, e.g. Answer for a graduate-level audience."
+            className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Default focus</span>
+          <select
+            value={defaultFocus}
+            onChange={(e) => setDefaultFocus(e.target.value as SearchFocus | '')}
+            className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg bg-white"
+          >
+            <option value="">Keep the current focus</option>
+            {SEARCH_FOCUSES.map((focus) => (
+              <option key={focus} value={focus}>{FOCUS_MODES[focus].label}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex justify-end space-x-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
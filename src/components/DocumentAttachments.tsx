@@ -0,0 +1,99 @@
+'use client';
+
+import { useRef } from 'react';
+import { FileText, Loader2, Paperclip, X } from 'lucide-react';
+import { ChatDocument } from '@/types';
+
+interface DocumentAttachmentsProps {
+  documents: ChatDocument[];
+  uploading: string[]; // names of files still being uploaded
+  error: string | null;
+  onUpload: (files: File[]) => void;
+  onRemove: (documentId: string) => void;
+  onDismissError: () => void;
+  disabled?: boolean;
+}
+
+const ACCEPT = '.pdf,.docx,.md,.markdown,.txt';
+
+// Attach button plus a chip per document uploaded to the current chat
+export default function DocumentAttachments({
+  documents,
+  uploading,
+  error,
+  onUpload,
+  onRemove,
+  onDismissError,
+  disabled = false
+}: DocumentAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        title="Attach PDF, Word, Markdown or text files to search alongside the web"
+        className="inline-flex items-center space-x-1 px-2.5 py-1 text-sm rounded-full border transition-colors
+                 bg-white border-gray-200 text-gray-700 hover:bg-gray-50 hover:border-gray-300
+                 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        <Paperclip className="h-3.5 w-3.5" />
+        <span>Attach</span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPT}
+        multiple
+        hidden
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          // Reset so picking the same file again still fires a change
+          e.target.value = '';
+          if (files.length > 0) onUpload(files);
+        }}
+      />
+
+      {documents.map((document) => (
+        <span
+          key={document.id}
+          className="inline-flex items-center max-w-[14rem] pl-2 pr-1 py-1 text-xs bg-amber-50 border border-amber-200 text-amber-900 rounded-full"
+          title={`${document.name}${document.pageCount ? ` · ${document.pageCount} pages` : ''}`}
+        >
+          <FileText className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+          <span className="truncate">{document.name}</span>
+          <button
+            type="button"
+            onClick={() => onRemove(document.id)}
+            disabled={disabled}
+            className="ml-1 p-0.5 rounded-full hover:bg-amber-100 disabled:opacity-50"
+            title="Remove document"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+
+      {uploading.map((name, index) => (
+        <span
+          key={`${name}-${index}`}
+          className="inline-flex items-center max-w-[14rem] px-2 py-1 text-xs bg-gray-100 border border-gray-200 text-gray-600 rounded-full"
+        >
+          <Loader2 className="h-3.5 w-3.5 mr-1 flex-shrink-0 animate-spin" />
+          <span className="truncate">{name}</span>
+        </span>
+      ))}
+
+      {error && (
+        <span className="inline-flex items-center px-2 py-1 text-xs bg-red-50 border border-red-200 text-red-700 rounded-full">
+          <span>{error}</span>
+          <button type="button" onClick={onDismissError} className="ml-1 p-0.5 rounded-full hover:bg-red-100" title="Dismiss">
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      )}
+    </>
+  );
+}
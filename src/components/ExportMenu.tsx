@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Chat } from '@/types';
+import { EXPORT_FILE_TYPES, ExportFormat, exportChats } from '@/lib/chatExport';
+
+interface ExportMenuProps {
+  chats: Chat[];
+  title: string; // used for the file name and the HTML page title
+  label?: string;
+  className?: string; // text and hover colors of the button
+  direction?: 'down' | 'up'; // which way the menu opens
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown (.md)',
+  html: 'Web page (.html)',
+  json: 'JSON backup (.json)',
+};
+
+function toFileName(title: string, format: ExportFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60);
+  return `${slug || 'romnexity-chats'}.${EXPORT_FILE_TYPES[format].extension}`;
+}
+
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ExportMenu({
+  chats,
+  title,
+  label = 'Export',
+  className = 'text-gray-600 hover:text-gray-900 hover:bg-gray-100',
+  direction = 'down',
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadFile(toFileName(title, format), exportChats(chats, format, title), EXPORT_FILE_TYPES[format].mimeType);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={chats.length === 0}
+        className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-50 ${className}`}
+      >
+        <Download className="h-4 w-4" />
+        <span>{label}</span>
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 z-20 ${direction === 'up' ? 'bottom-full mb-2' : 'mt-2'} w-48 py-1 bg-white border border-gray-200 rounded-lg shadow-lg text-sm`}>
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-3 py-2 text-gray-700 hover:bg-gray-50"
+            >
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { Globe, GraduationCap, Newspaper, MessagesSquare, Code, Youtube, LucideIcon } from 'lucide-react';
+import { SearchFocus } from '@/types';
+import { FOCUS_MODES, SEARCH_FOCUSES } from '@/lib/focus';
+
+interface FocusPickerProps {
+  value: SearchFocus;
+  onChange: (focus: SearchFocus) => void;
+  disabled?: boolean;
+}
+
+const FOCUS_ICONS: Record<SearchFocus, LucideIcon> = {
+  all: Globe,
+  academic: GraduationCap,
+  news: Newspaper,
+  forums: MessagesSquare,
+  code: Code,
+  video: Youtube,
+};
+
+export default function FocusPicker({ value, onChange, disabled = false }: FocusPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Search focus">
+      {SEARCH_FOCUSES.map((focus) => {
+        const Icon = FOCUS_ICONS[focus];
+        const isSelected = focus === value;
+        return (
+          <button
+            key={focus}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            onClick={() => onChange(focus)}
+            disabled={disabled}
+            title={FOCUS_MODES[focus].description}
+            className={`inline-flex items-center space-x-1 px-2.5 py-1 text-sm rounded-full border transition-colors
+                      disabled:cursor-not-allowed disabled:opacity-50 ${
+              isSelected
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50 hover:border-gray-300'
+            }`}
+          >
+            <Icon className="h-3.5 w-3.5" />
+            <span>{FOCUS_MODES[focus].label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
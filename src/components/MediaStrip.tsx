@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, ExternalLink, Play, X } from 'lucide-react';
+import { MediaResult } from '@/types';
+import { mediaProxyUrl } from '@/lib/media';
+
+interface MediaStripProps {
+  media: MediaResult[];
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+// Where the item came from: the page it appears on, the video page, or at least the image host
+function attributionUrl(item: MediaResult): string {
+  return item.sourceUrl ?? item.url;
+}
+
+function Lightbox({ media, index, onSelect, onClose }: {
+  media: MediaResult[];
+  index: number;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}) {
+  const item = media[index];
+  const hasPrevious = index > 0;
+  const hasNext = index < media.length - 1;
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && hasPrevious) onSelect(index - 1);
+      if (e.key === 'ArrowRight' && hasNext) onSelect(index + 1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [index, hasPrevious, hasNext, onSelect, onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-80 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={item.title ?? 'Media'}
+    >
+      <button onClick={onClose} className="absolute top-4 right-4 p-2 text-white hover:bg-white/10 rounded-full" title="Close">
+        <X className="h-6 w-6" />
+      </button>
+      {hasPrevious && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onSelect(index - 1); }}
+          className="absolute left-4 p-2 text-white hover:bg-white/10 rounded-full"
+          title="Previous"
+        >
+          <ChevronLeft className="h-8 w-8" />
+        </button>
+      )}
+      {hasNext && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onSelect(index + 1); }}
+          className="absolute right-4 p-2 text-white hover:bg-white/10 rounded-full"
+          title="Next"
+        >
+          <ChevronRight className="h-8 w-8" />
+        </button>
+      )}
+
+      <figure className="flex flex-col items-center max-w-4xl max-h-full" onClick={(e) => e.stopPropagation()}>
+        <div className="relative">
+          {/* eslint-disable-next-line @next/next/no-img-element -- proxied remote images of unknown size */}
+          <img
+            src={mediaProxyUrl(item.type === 'video' ? item.thumbnailUrl ?? item.url : item.url)}
+            alt={item.title ?? ''}
+            className="max-h-[75vh] max-w-full object-contain rounded-lg bg-gray-900"
+          />
+          {item.type === 'video' && (
+            <a
+              href={item.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="absolute inset-0 flex items-center justify-center"
+              title="Watch video"
+            >
+              <span className="p-4 bg-black bg-opacity-60 rounded-full text-white">
+                <Play className="h-8 w-8" />
+              </span>
+            </a>
+          )}
+        </div>
+        <figcaption className="mt-3 text-center text-sm text-gray-200">
+          {item.title && <p className="font-medium text-white">{item.title}</p>}
+          <p className="mt-1">
+            <span className="text-gray-400">{index + 1} / {media.length} · Source: </span>
+            <a
+              href={attributionUrl(item)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center hover:underline"
+            >
+              {hostOf(attributionUrl(item))}
+              <ExternalLink className="h-3 w-3 ml-1" />
+            </a>
+          </p>
+        </figcaption>
+      </figure>
+    </div>
+  );
+}
+
+// Thumbnails of the images and videos found for the query; images that fail to load are dropped
+export default function MediaStrip({ media }: MediaStripProps) {
+  const [failed, setFailed] = useState<Set<string>>(new Set());
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const visible = media.filter(item => !failed.has(item.url));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <div className="flex space-x-2 overflow-x-auto pb-2">
+        {visible.map((item, index) => (
+          <button
+            key={item.url}
+            onClick={() => setOpenIndex(index)}
+            className="group relative flex-shrink-0 h-24 rounded-lg overflow-hidden border border-gray-200 bg-gray-100
+                     hover:border-gray-400 transition-colors"
+            title={`${item.title ? `${item.title}\n` : ''}${hostOf(attributionUrl(item))}`}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element -- proxied remote images of unknown size */}
+            <img
+              src={mediaProxyUrl(item.thumbnailUrl ?? item.url)}
+              alt={item.title ?? ''}
+              loading="lazy"
+              onError={() => setFailed(prev => new Set(prev).add(item.url))}
+              className="h-full w-auto min-w-[6rem] max-w-[12rem] object-cover"
+            />
+            {item.type === 'video' && (
+              <span className="absolute inset-0 flex items-center justify-center">
+                <span className="p-2 bg-black bg-opacity-60 rounded-full text-white">
+                  <Play className="h-4 w-4" />
+                </span>
+              </span>
+            )}
+            <span className="absolute bottom-0 inset-x-0 px-1.5 py-0.5 text-[10px] text-left text-white truncate
+                           bg-gradient-to-t from-black/70 to-transparent">
+              {hostOf(attributionUrl(item))}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {openIndex !== null && visible[openIndex] && (
+        <Lightbox media={visible} index={openIndex} onSelect={setOpenIndex} onClose={() => setOpenIndex(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { Cpu } from 'lucide-react';
+import { ModelOption } from '@/types';
+
+interface ModelPickerProps {
+  models: ModelOption[];
+  value: string;
+  onChange: (model: string) => void;
+  disabled?: boolean;
+}
+
+export default function ModelPicker({ models, value, onChange, disabled = false }: ModelPickerProps) {
+  return (
+    <label className="inline-flex items-center space-x-2 text-sm text-gray-600">
+      <Cpu className="h-4 w-4" />
+      <span className="sr-only">Model</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="px-2 py-1 bg-white border border-gray-200 rounded-lg text-gray-900
+                 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200
+                 disabled:bg-gray-50 disabled:cursor-not-allowed"
+      >
+        {models.map((model) => (
+          <option key={model.id} value={model.id}>
+            {model.id}{model.isDefault ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { CircleCheck, Loader2, Search, ListTree, FileText } from 'lucide-react';
+import { ResearchProgress } from '@/types';
+
+interface ResearchProgressLogProps {
+  progress: ResearchProgress[];
+}
+
+interface LogLine {
+  key: string;
+  icon: 'plan' | 'search' | 'write';
+  text: string;
+  detail?: string;
+  done: boolean;
+}
+
+// Collapse the raw progress events into one line per step, marking finished steps
+function toLogLines(progress: ResearchProgress[]): LogLine[] {
+  const lines: LogLine[] = [];
+  const finishLast = () => {
+    const last = lines[lines.length - 1];
+    if (last && last.icon !== 'search') last.done = true;
+  };
+
+  for (const event of progress) {
+    switch (event.stage) {
+      case 'planning':
+        lines.push({ key: 'planning', icon: 'plan', text: 'Planning research steps', done: false });
+        break;
+      case 'planned':
+        finishLast();
+        lines.push({
+          key: `planned-${event.round}`,
+          icon: 'plan',
+          text: event.round === 1
+            ? `Planned ${event.subQuestions.length} sub-question${event.subQuestions.length !== 1 ? 's' : ''}`
+            : `Round ${event.round}: filling ${event.subQuestions.length} gap${event.subQuestions.length !== 1 ? 's' : ''}`,
+          done: true,
+        });
+        break;
+      case 'searching':
+        lines.push({ key: `search-${event.round}-${event.query}`, icon: 'search', text: event.query, done: false });
+        break;
+      case 'read': {
+        const line = lines.find(l => l.key === `search-${event.round}-${event.query}`);
+        if (line) {
+          line.done = true;
+          line.detail = `${event.newSources} new source${event.newSources !== 1 ? 's' : ''} read`;
+        }
+        break;
+      }
+      case 'reviewing':
+        lines.push({ key: `reviewing-${event.round}`, icon: 'plan', text: 'Checking for gaps in coverage', done: false });
+        break;
+      case 'writing':
+        finishLast();
+        lines.push({
+          key: 'writing',
+          icon: 'write',
+          text: `Writing report from ${event.totalSources} source${event.totalSources !== 1 ? 's' : ''}`,
+          done: false,
+        });
+        break;
+    }
+  }
+  return lines;
+}
+
+const ICONS = { plan: ListTree, search: Search, write: FileText };
+
+export default function ResearchProgressLog({ progress }: ResearchProgressLogProps) {
+  return (
+    <ul className="space-y-2 text-sm">
+      {toLogLines(progress).map((line) => {
+        const Icon = ICONS[line.icon];
+        return (
+          <li key={line.key} className="flex items-start space-x-2">
+            {line.done ? (
+              <CircleCheck className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+            ) : (
+              <Loader2 className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600 animate-spin" />
+            )}
+            <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-400" />
+            <span className="text-gray-800">
+              {line.text}
+              {line.detail && <span className="ml-2 text-gray-500">{line.detail}</span>}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, FormEvent } from 'react';
 import { Search, Loader2 } from 'lucide-react';
+import { SEARCH_REQUEST_LIMITS } from '@/lib/searchRequest';
 
 interface SearchInputProps {
   onSearch: (query: string) => void;
@@ -60,6 +61,7 @@ export default function SearchInput({
           <textarea
             value={query}
             onChange={(e) => setQuery(e.target.value)}
+            maxLength={SEARCH_REQUEST_LIMITS.queryLength}
             onKeyDown={handleKeyDown}
             placeholder={placeholder}
             disabled={isLoading}
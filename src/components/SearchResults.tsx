@@ -1,37 +1,34 @@
 'use client';
 
 import { useState } from 'react';
-import { ExternalLink, Copy, Share2, RefreshCw, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { ExternalLink, Copy, RefreshCw, X, ChevronDown, ChevronUp, AlertTriangle, Telescope, Clock, FileText, Library } from 'lucide-react';
+import { SearchResultsProps } from '@/types';
+import { answerToMarkdown } from '@/lib/chatExport';
+import { getUnsupportedSentences } from '@/lib/answerMarkdown';
+import AnswerMarkdown, { chipStyles } from './AnswerMarkdown';
+import ShareButton from './ShareButton';
+import MediaStrip from './MediaStrip';
 
-// Types (should match your API types)
-interface SearchResult {
-  title: string;
-  url: string;
-  content: string;
-  score?: number;
+// "just now", "12 min ago", "3 h ago", "2 days ago"
+function formatAge(seconds: number): string {
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+  const days = Math.floor(seconds / 86400);
+  return `${days} day${days !== 1 ? 's' : ''} ago`;
 }
 
-interface Citation {
-  index: number;
-  url: string;
-  title: string;
-}
-
-interface SearchResponse {
-  query: string;
-  answer: string;
-  sources: SearchResult[];
-  citations: Citation[];
-}
-
-interface SearchResultsProps {
-  results: SearchResponse;
-  onNewSearch: (query: string) => void;
-  onClear: () => void;
-}
-
-export default function SearchResults({ results, onNewSearch, onClear }: SearchResultsProps) {
+export default function SearchResults({
+  results,
+  onNewSearch,
+  onRefresh = onNewSearch,
+  onClear,
+  isStreaming = false,
+  shareTarget,
+  readOnly = false,
+}: SearchResultsProps) {
   const [showAllSources, setShowAllSources] = useState(false);
+  const [showResearchPlan, setShowResearchPlan] = useState(false);
   const [copiedText, setCopiedText] = useState<string | null>(null);
 
   // Handle copying text
@@ -45,55 +42,6 @@ export default function SearchResults({ results, onNewSearch, onClear }: SearchR
     }
   };
 
-  // Handle sharing (if Web Share API is available)
-  const handleShare = async () => {
-    const shareData = {
-      title: `Answer to: ${results.query}`,
-      text: results.answer,
-      url: window.location.href,
-    };
-
-    try {
-      if (navigator.share) {
-        await navigator.share(shareData);
-      } else {
-        // Fallback to copying URL
-        await handleCopy(window.location.href, 'url');
-      }
-    } catch (error) {
-      console.error('Failed to share:', error);
-    }
-  };
-
-  // Render answer with clickable citations
-  const renderAnswerWithCitations = (answer: string, citations: Citation[]) => {
-    const citationRegex = /\[(\d+)\]/g;
-    const parts = answer.split(citationRegex);
-    
-    return parts.map((part, index) => {
-      // Check if this part is a citation number
-      const citationNumber = parseInt(part);
-      if (!isNaN(citationNumber) && citations.find(c => c.index === citationNumber)) {
-        const citation = citations.find(c => c.index === citationNumber);
-        return (
-          <a
-            key={index}
-            href={citation?.url}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="inline-flex items-center mx-1 px-1.5 py-0.5 text-xs font-medium 
-                     bg-blue-100 text-blue-800 rounded hover:bg-blue-200 transition-colors
-                     border border-blue-200"
-            title={citation?.title}
-          >
-            {citationNumber}
-          </a>
-        );
-      }
-      return <span key={index}>{part}</span>;
-    });
-  };
-
   // Extract domain from URL
   const getDomain = (url: string) => {
     try {
@@ -104,6 +52,8 @@ export default function SearchResults({ results, onNewSearch, onClear }: SearchR
   };
 
   const visibleSources = showAllSources ? results.sources : results.sources.slice(0, 3);
+  const claims = results.claims ?? [];
+  const unsupportedSentences = getUnsupportedSentences(claims).size;
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -113,25 +63,41 @@ export default function SearchResults({ results, onNewSearch, onClear }: SearchR
           {results.query}
         </h2>
         <div className="flex items-center space-x-2">
-          <button
-            onClick={() => onNewSearch(results.query)}
-            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg
-                     transition-colors"
-            title="Refresh search"
-          >
-            <RefreshCw className="h-5 w-5" />
-          </button>
-          <button
-            onClick={onClear}
-            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg
-                     transition-colors"
-            title="Clear results"
-          >
-            <X className="h-5 w-5" />
-          </button>
+          {results.cache?.hit && !isStreaming && !readOnly && (
+            <span
+              className="inline-flex items-center space-x-1 px-2 py-1 text-xs text-gray-600 bg-gray-100 rounded-full"
+              title="Served from cache. Refresh to search again."
+            >
+              <Clock className="h-3 w-3" />
+              <span>Cached {formatAge(results.cache.ageSeconds)}</span>
+            </span>
+          )}
+          {!readOnly && (
+            <>
+              <button
+                onClick={() => onRefresh(results.query)}
+                disabled={isStreaming}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg
+                         transition-colors"
+                title="Refresh search"
+              >
+                <RefreshCw className="h-5 w-5" />
+              </button>
+              <button
+                onClick={onClear}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg
+                         transition-colors"
+                title="Clear results"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </>
+          )}
         </div>
       </div>
 
+      {results.media && results.media.length > 0 && <MediaStrip media={results.media} />}
+
       {/* Main Answer */}
       <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
         <div className="p-6">
@@ -139,32 +105,75 @@ export default function SearchResults({ results, onNewSearch, onClear }: SearchR
             <h3 className="text-lg font-semibold text-gray-900">Answer</h3>
             <div className="flex items-center space-x-2">
               <button
-                onClick={() => handleCopy(results.answer, 'answer')}
+                onClick={() => handleCopy(answerToMarkdown(results), 'answer')}
+                disabled={isStreaming}
+                title="Copy as Markdown with source links"
                 className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 
                          hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
               >
                 <Copy className="h-4 w-4" />
                 <span>{copiedText === 'answer' ? 'Copied!' : 'Copy'}</span>
               </button>
-              <button
-                onClick={handleShare}
-                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 
-                         hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
-              >
-                <Share2 className="h-4 w-4" />
-                <span>{copiedText === 'url' ? 'Copied!' : 'Share'}</span>
-              </button>
+              {shareTarget && !readOnly && !isStreaming && <ShareButton target={shareTarget} />}
             </div>
           </div>
           
-          <div className="prose prose-gray max-w-none">
-            <p className="text-gray-800 leading-relaxed whitespace-pre-wrap">
-              {renderAnswerWithCitations(results.answer, results.citations)}
-            </p>
-          </div>
+          <AnswerMarkdown
+            answer={results.answer}
+            citations={results.citations}
+            sources={results.sources}
+            claims={claims}
+          />
+          {isStreaming && (
+            <span className="inline-block w-2 h-4 mt-1 bg-blue-600 animate-pulse" />
+          )}
+
+          {unsupportedSentences > 0 && (
+            <div className="mt-4 flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <span>
+                {unsupportedSentences} underlined sentence{unsupportedSentences !== 1 ? 's are' : ' is'} not
+                supported by the cited sources. Check the sources before relying on {unsupportedSentences !== 1 ? 'them' : 'it'}.
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Research plan */}
+      {results.research && (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+          <div className="p-6">
+            <button
+              onClick={() => setShowResearchPlan(!showResearchPlan)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <div className="flex items-center space-x-2">
+                <Telescope className="h-5 w-5 text-purple-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Research</h3>
+                <span className="text-sm text-gray-500">
+                  {results.research.subQuestions.length} sub-question{results.research.subQuestions.length !== 1 ? 's' : ''}
+                  {' · '}{results.research.rounds} round{results.research.rounds !== 1 ? 's' : ''}
+                  {' · '}{results.research.sourcesRead} source{results.research.sourcesRead !== 1 ? 's' : ''} read
+                </span>
+              </div>
+              {showResearchPlan ? (
+                <ChevronUp className="h-4 w-4 text-gray-500" />
+              ) : (
+                <ChevronDown className="h-4 w-4 text-gray-500" />
+              )}
+            </button>
+            {showResearchPlan && (
+              <ol className="mt-4 space-y-1 list-decimal list-inside text-sm text-gray-700">
+                {results.research.subQuestions.map((subQuestion) => (
+                  <li key={subQuestion}>{subQuestion}</li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Sources */}
       <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
         <div className="p-6">
@@ -230,9 +239,25 @@ export default function SearchResults({ results, onNewSearch, onClear }: SearchR
                   </p>
                   
                   <div className="flex items-center justify-between">
-                    <span className="text-xs text-gray-500">
-                      {getDomain(source.url)}
-                    </span>
+                    {source.document ? (
+                      <span className="inline-flex items-center text-xs text-amber-800">
+                        <FileText className="h-3.5 w-3.5 mr-1" />
+                        {source.document.name}
+                        {source.document.page !== undefined && ` · page ${source.document.page}`}
+                      </span>
+                    ) : source.knowledge ? (
+                      <span className="inline-flex items-center min-w-0 text-xs text-emerald-800" title="From the knowledge base">
+                        <Library className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+                        <span className="truncate">
+                          {source.knowledge.location}
+                          {source.knowledge.page !== undefined && ` · page ${source.knowledge.page}`}
+                        </span>
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-500">
+                        {getDomain(source.url)}
+                      </span>
+                    )}
                     {source.score && (
                       <span className="text-xs text-gray-400">
                         Relevance: {Math.round(source.score * 100)}%
@@ -260,9 +285,10 @@ export default function SearchResults({ results, onNewSearch, onClear }: SearchR
                 className="inline-flex items-center space-x-1 px-2 py-1 bg-white border 
                          border-gray-200 rounded text-xs text-gray-700 hover:border-gray-300 
                          hover:bg-gray-50 transition-colors"
+                title={citation.quote ? `“${citation.quote}”` : citation.title}
               >
-                <span className="w-4 h-4 bg-blue-100 text-blue-800 rounded-full flex 
-                               items-center justify-center text-xs font-medium">
+                <span className={`w-4 h-4 rounded-full flex items-center justify-center 
+                               text-xs font-medium border ${chipStyles[citation.verdict ?? 'default']}`}>
                   {citation.index}
                 </span>
                 <span className="truncate max-w-32">{citation.title}</span>
@@ -274,25 +300,23 @@ export default function SearchResults({ results, onNewSearch, onClear }: SearchR
       )}
 
       {/* Follow-up Questions */}
-      <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
-        <h4 className="text-sm font-medium text-blue-900 mb-3">Related Questions</h4>
-        <div className="space-y-2">
-          {[
-            `What are the implications of ${results.query.toLowerCase()}?`,
-            `How does ${results.query.toLowerCase()} compare to alternatives?`,
-            `What are the latest developments regarding ${results.query.toLowerCase()}?`
-          ].map((question, index) => (
-            <button
-              key={index}
-              onClick={() => onNewSearch(question)}
-              className="block w-full text-left px-3 py-2 text-sm text-blue-800 
-                       hover:bg-blue-100 rounded-lg transition-colors"
-            >
-              {question}
-            </button>
-          ))}
+      {!isStreaming && !readOnly && results.relatedQuestions && results.relatedQuestions.length > 0 && (
+        <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
+          <h4 className="text-sm font-medium text-blue-900 mb-3">Related Questions</h4>
+          <div className="space-y-2">
+            {results.relatedQuestions.map((question) => (
+              <button
+                key={question}
+                onClick={() => onNewSearch(question)}
+                className="block w-full text-left px-3 py-2 text-sm text-blue-800 
+                         hover:bg-blue-100 rounded-lg transition-colors"
+              >
+                {question}
+              </button>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+'use client';
+
+import { Search } from 'lucide-react';
+
+interface SearchedQueriesProps {
+  query: string;
+  searchQueries?: string[];
+}
+
+// Shown under a user bubble when a follow-up was rewritten before searching
+export default function SearchedQueries({ query, searchQueries }: SearchedQueriesProps) {
+  if (!searchQueries || searchQueries.length === 0) return null;
+  if (searchQueries.length === 1 && searchQueries[0].toLowerCase() === query.trim().toLowerCase()) return null;
+
+  return (
+    <div className="flex justify-end">
+      <div className="max-w-[80%] flex items-start space-x-1.5 text-xs text-gray-500">
+        <Search className="h-3.5 w-3.5 mt-px flex-shrink-0" />
+        <span>
+          Searched for{' '}
+          {searchQueries.map((searchQuery, index) => (
+            <span key={searchQuery}>
+              {index > 0 && (index === searchQueries.length - 1 ? ' and ' : ', ')}
+              <span className="font-medium text-gray-700">&ldquo;{searchQuery}&rdquo;</span>
+            </span>
+          ))}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { Share2, Link2, Copy, Trash2, X } from 'lucide-react';
+import { CreateShareResponse, ShareTarget } from '@/types';
+import {
+  findPublishedShare,
+  PublishedShare,
+  rememberPublishedShare,
+  revokePublishedShare,
+} from '@/lib/shareTokens';
+
+interface ShareButtonProps {
+  target: ShareTarget;
+  label?: string;
+  className?: string; // text and hover colors of the button
+}
+
+// Publishes a read-only snapshot and shows its link, with copy and revoke actions
+export default function ShareButton({
+  target,
+  label = 'Share',
+  className = 'text-gray-600 hover:text-gray-900 hover:bg-gray-100',
+}: ShareButtonProps) {
+  const [share, setShare] = useState<PublishedShare | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const absoluteUrl = share ? `${window.location.origin}${share.url}` : '';
+
+  const handlePublish = async () => {
+    setError(null);
+    setIsOpen(true);
+
+    const existing = findPublishedShare(target);
+    if (existing) {
+      setShare(existing);
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const created: CreateShareResponse = await response.json();
+      const published = { ...target, ...created };
+      rememberPublishedShare(published);
+      setShare(published);
+    } catch (publishError) {
+      console.error('Failed to publish share:', publishError);
+      setError(publishError instanceof Error ? publishError.message : 'Failed to create link');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(absoluteUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      console.error('Failed to copy:', copyError);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!share) return;
+    setIsBusy(true);
+    try {
+      if (await revokePublishedShare(share.id)) {
+        setShare(null);
+        setIsOpen(false);
+      } else {
+        setError('Failed to revoke link');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handlePublish}
+        disabled={isBusy}
+        className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg transition-colors ${className}`}
+      >
+        <Share2 className="h-4 w-4" />
+        <span>{label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 p-3 bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-gray-900">Public link</span>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded"
+              title="Close"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          {error && <p className="text-red-600">{error}</p>}
+          {!error && !share && <p className="text-gray-500">Creating link...</p>}
+
+          {share && (
+            <>
+              <p className="text-gray-500 mb-2">
+                Anyone with the link can view a read-only copy of {target.messageId ? 'this answer' : 'this chat'} as it is now.
+              </p>
+              <div className="flex items-center space-x-2 mb-3">
+                <Link2 className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                <a
+                  href={share.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-1 truncate text-blue-600 hover:underline"
+                >
+                  {absoluteUrl}
+                </a>
+              </div>
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center space-x-1 px-2.5 py-1 text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                >
+                  <Copy className="h-3.5 w-3.5" />
+                  <span>{copied ? 'Copied!' : 'Copy link'}</span>
+                </button>
+                <button
+                  onClick={handleRevoke}
+                  disabled={isBusy}
+                  className="flex items-center space-x-1 px-2.5 py-1 text-red-700 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span>Revoke</span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
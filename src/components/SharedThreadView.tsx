@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Sparkles, Trash2 } from 'lucide-react';
+import { SharedThread } from '@/types';
+import { FOCUS_MODES } from '@/lib/focus';
+import { getPublishedShare, revokePublishedShare } from '@/lib/shareTokens';
+import SearchResults from './SearchResults';
+
+interface SharedThreadViewProps {
+  share: SharedThread;
+}
+
+// Read-only rendering of a published answer or chat, without the history sidebar
+export default function SharedThreadView({ share }: SharedThreadViewProps) {
+  const [isOwner, setIsOwner] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [isRevoked, setIsRevoked] = useState(false);
+
+  // Only the browser that published the link holds its revoke token
+  useEffect(() => {
+    setIsOwner(!!getPublishedShare(share.id));
+  }, [share.id]);
+
+  const handleRevoke = async () => {
+    setIsRevoking(true);
+    try {
+      setIsRevoked(await revokePublishedShare(share.id));
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center space-x-2 text-gray-900">
+            <Sparkles className="h-5 w-5 text-blue-600" />
+            <span className="font-semibold">Romnexity</span>
+          </Link>
+          <div className="flex items-center space-x-2">
+            {isOwner && !isRevoked && (
+              <button
+                onClick={handleRevoke}
+                disabled={isRevoking}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-700 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span>Revoke link</span>
+              </button>
+            )}
+            <Link
+              href="/"
+              className="px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+            >
+              Ask your own question
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        {isRevoked ? (
+          <div className="p-4 bg-white border border-gray-200 rounded-lg text-gray-700">
+            This link has been revoked and is no longer available.
+          </div>
+        ) : (
+          <>
+            <div className="mb-6">
+              <h1 className="text-2xl font-bold text-gray-900">{share.title}</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                Shared {share.kind === 'chat' ? `chat with ${share.messages.length} message${share.messages.length !== 1 ? 's' : ''}` : 'answer'}
+                {' · '}{new Date(share.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+
+            <div className="space-y-6">
+              {share.messages.map((message) => (
+                <div key={message.id} className="space-y-4">
+                  <div className="flex justify-end">
+                    <div className="max-w-[80%] bg-blue-600 text-white rounded-lg px-4 py-2">
+                      {message.focus && message.focus !== 'all' && (
+                        <p className="text-xs text-blue-100 mb-1">{FOCUS_MODES[message.focus].label} focus</p>
+                      )}
+                      <p>{message.query}</p>
+                    </div>
+                  </div>
+
+                  <div className="bg-white border border-gray-200 rounded-lg p-4">
+                    <SearchResults
+                      results={message.response}
+                      onNewSearch={() => {}}
+                      onClear={() => {}}
+                      readOnly
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Link2, Trash2, X } from 'lucide-react';
+import { ShareInfo } from '@/types';
+import { revokePublishedShare } from '@/lib/shareTokens';
+
+interface SharesDialogProps {
+  onClose: () => void;
+}
+
+// The links the signed-in user published from any browser, with a revoke action for each
+export default function SharesDialog({ onClose }: SharesDialogProps) {
+  const [shares, setShares] = useState<ShareInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/shares')
+      .then(async response => {
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `HTTP ${response.status}`);
+        }
+        const data: { shares: ShareInfo[] } = await response.json();
+        setShares(data.shares.map(share => ({ ...share, createdAt: new Date(share.createdAt) })));
+      })
+      .catch(loadError => setError(loadError.message));
+  }, []);
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    if (await revokePublishedShare(id)) {
+      setShares(prev => prev.filter(share => share.id !== id));
+    } else {
+      setError('Failed to revoke link');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-25 p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-md bg-white rounded-lg shadow-lg p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Shared links</h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <ul className="divide-y divide-gray-100">
+          {shares.map(share => (
+            <li key={share.id} className="flex items-center justify-between py-2">
+              <div className="min-w-0">
+                <a
+                  href={share.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-sm font-medium text-gray-900 truncate hover:underline"
+                >
+                  {share.title}
+                </a>
+                <p className="text-xs text-gray-500">
+                  {share.kind === 'chat' ? 'Chat' : 'Answer'} · shared {share.createdAt.toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(share.id)}
+                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                title="Revoke link"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+          {shares.length === 0 && (
+            <li className="flex items-center py-2 text-sm text-gray-500">
+              <Link2 className="h-4 w-4 mr-2" />
+              No shared links
+            </li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import { AuthProviderInfo } from '@/types';
+
+interface SignInFormProps {
+  next: string; // where to go after signing in
+  providers: AuthProviderInfo[];
+  signupAllowed: boolean;
+  firstAccount: boolean; // no accounts yet, so the form starts on sign-up
+}
+
+export default function SignInForm({ next, providers, signupAllowed, firstAccount }: SignInFormProps) {
+  const [creating, setCreating] = useState(firstAccount);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const hasCredentials = providers.some(provider => provider.type === 'credentials');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = await fetch(creating ? '/api/auth/signup' : '/api/auth/signin', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(creating ? { name: name.trim() || undefined, email, password } : { email, password }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+      window.location.assign(next);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Something went wrong');
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = 'mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center justify-center space-x-2 mb-6">
+          <Sparkles className="h-7 w-7 text-blue-600" />
+          <span className="text-2xl font-bold text-gray-900">Romnexity</span>
+        </div>
+
+        {hasCredentials && (
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+            <h1 className="text-lg font-semibold text-gray-900">
+              {creating ? 'Create an account' : 'Sign in'}
+            </h1>
+            {firstAccount && (
+              <p className="text-sm text-gray-500">
+                This is the first account on this server.
+              </p>
+            )}
+
+            {creating && (
+              <label className="block text-sm">
+                <span className="font-medium text-gray-700">Name <span className="font-normal text-gray-400">(optional)</span></span>
+                <input value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" className={inputClass} />
+              </label>
+            )}
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Email</span>
+              <input
+                type="email"
+                required
+                autoFocus
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Password</span>
+              <input
+                type="password"
+                required
+                minLength={creating ? 8 : undefined}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={creating ? 'new-password' : 'current-password'}
+                className={inputClass}
+              />
+            </label>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg
+                       hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {creating ? 'Create account' : 'Sign in'}
+            </button>
+
+            {signupAllowed && (
+              <p className="text-sm text-center text-gray-500">
+                {creating ? 'Already have an account? ' : 'New here? '}
+                <button
+                  type="button"
+                  onClick={() => { setCreating(!creating); setError(null); }}
+                  className="text-blue-600 hover:underline"
+                >
+                  {creating ? 'Sign in' : 'Create an account'}
+                </button>
+              </p>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
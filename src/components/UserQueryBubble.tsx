@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
+import { ChatMessage } from '@/types';
+import { FOCUS_MODES } from '@/lib/focus';
+import { SEARCH_REQUEST_LIMITS } from '@/lib/searchRequest';
+
+interface UserQueryBubbleProps {
+  message: ChatMessage;
+  versions: ChatMessage[]; // the message and its siblings, oldest first
+  onSelectVersion: (messageId: string) => void;
+  onEdit: (query: string) => void; // asks the edited question as a new version
+  disabled?: boolean;
+}
+
+export default function UserQueryBubble({ message, versions, onSelectVersion, onEdit, disabled = false }: UserQueryBubbleProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.query);
+
+  const versionIndex = versions.findIndex(version => version.id === message.id);
+
+  const submitEdit = () => {
+    const query = draft.trim();
+    if (!query) return;
+    setIsEditing(false);
+    onEdit(query);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex justify-end">
+        <div className="w-full max-w-[80%] bg-white border border-blue-300 rounded-lg p-2">
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={SEARCH_REQUEST_LIMITS.queryLength}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                submitEdit();
+              }
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            rows={Math.min(6, Math.max(2, draft.split('\n').length))}
+            aria-label="Edit question"
+            className="w-full px-2 py-1 text-gray-900 resize-none focus:outline-none"
+          />
+          <div className="flex justify-end space-x-2 mt-1">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submitEdit}
+              disabled={!draft.trim() || draft.trim() === message.query}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Send
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group flex flex-col items-end">
+      <div className="max-w-[80%] bg-blue-600 text-white rounded-lg px-4 py-2">
+        <p className="text-sm font-medium mb-1">
+          You
+          {message.focus && message.focus !== 'all' && (
+            <span className="ml-2 text-xs font-normal text-blue-100">
+              {FOCUS_MODES[message.focus].label} focus
+            </span>
+          )}
+        </p>
+        <p>{message.query}</p>
+        <p className="text-xs text-blue-100 mt-1">
+          {new Date(message.timestamp).toLocaleString()}
+        </p>
+      </div>
+      <div className="flex items-center mt-1 text-xs text-gray-500">
+        {versions.length > 1 && (
+          <div className="flex items-center" aria-label="Versions of this question">
+            <button
+              onClick={() => onSelectVersion(versions[versionIndex - 1].id)}
+              disabled={disabled || versionIndex <= 0}
+              className="p-1 hover:text-gray-800 disabled:opacity-30"
+              title="Previous version"
+            >
+              <ChevronLeft className="h-3.5 w-3.5" />
+            </button>
+            <span className="tabular-nums">{versionIndex + 1}/{versions.length}</span>
+            <button
+              onClick={() => onSelectVersion(versions[versionIndex + 1].id)}
+              disabled={disabled || versionIndex >= versions.length - 1}
+              className="p-1 hover:text-gray-800 disabled:opacity-30"
+              title="Next version"
+            >
+              <ChevronRight className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+        <button
+          onClick={() => {
+            setDraft(message.query);
+            setIsEditing(true);
+          }}
+          disabled={disabled}
+          className="p-1 opacity-0 group-hover:opacity-100 hover:text-gray-800 transition-opacity disabled:hidden"
+          title="Edit question"
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
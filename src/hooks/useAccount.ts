@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { SessionApiResponse, User, UserSettings } from '@/types';
+
+// The signed-in user and their saved settings. A browser whose session has ended is sent
+// to the sign-in page
+export function useAccount() {
+  const [user, setUser] = useState<User | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then((data: SessionApiResponse) => {
+        if (!data.user) {
+          window.location.assign('/signin');
+          return;
+        }
+        setUser({ ...data.user, createdAt: new Date(data.user.createdAt) });
+      })
+      .catch(error => console.error('Failed to load the session:', error));
+  }, []);
+
+  // Applied locally right away; a failed save only costs the setting on the next visit
+  const saveSettings = (changes: UserSettings) => {
+    setUser(prev => prev && { ...prev, settings: { ...prev.settings, ...changes } });
+    fetch('/api/settings', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    }).catch(error => console.error('Failed to save settings:', error));
+  };
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/auth/signout', { method: 'POST' });
+    } finally {
+      window.location.assign('/signin');
+    }
+  };
+
+  return { user, saveSettings, signOut };
+}
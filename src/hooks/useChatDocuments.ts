@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { ChatDocument } from '@/types';
+
+function reviveDocument(document: ChatDocument): ChatDocument {
+  return { ...document, createdAt: new Date(document.createdAt) };
+}
+
+// Documents attached to the current chat. Uploads wait for whenSynced so a chat created
+// for the upload exists on the server first
+export function useChatDocuments(chatId: string | null, whenSynced: () => Promise<void>) {
+  const [documents, setDocuments] = useState<ChatDocument[]>([]);
+  const [uploading, setUploading] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!chatId) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/chats/${chatId}/documents`);
+        // A chat that is still being created has no documents yet
+        if (!response.ok) return;
+        const data: { documents: ChatDocument[] } = await response.json();
+        if (cancelled) return;
+        const loaded = data.documents.map(reviveDocument);
+        const loadedIds = new Set(loaded.map(document => document.id));
+        // Keep uploads that finished while the list was loading
+        setDocuments(prev => [...prev.filter(document => !loadedIds.has(document.id)), ...loaded]);
+      } catch (loadError) {
+        console.error('Failed to load documents:', loadError);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId]);
+
+  const upload = async (targetChatId: string, files: File[]) => {
+    setError(null);
+    setUploading(prev => [...prev, ...files.map(file => file.name)]);
+    try {
+      await whenSynced();
+    } catch {
+      // The chat write is retried with the next change; the upload reports its own failure
+    }
+
+    for (const file of files) {
+      try {
+        const form = new FormData();
+        form.append('file', file);
+        const response = await fetch(`/api/chats/${targetChatId}/documents`, { method: 'POST', body: form });
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `HTTP ${response.status}`);
+        }
+        const data: { document: ChatDocument } = await response.json();
+        setDocuments(prev => [...prev, reviveDocument(data.document)]);
+      } catch (uploadError) {
+        setError(`${file.name}: ${uploadError instanceof Error ? uploadError.message : 'Upload failed'}`);
+      } finally {
+        setUploading(prev => {
+          const index = prev.indexOf(file.name);
+          return index === -1 ? prev : [...prev.slice(0, index), ...prev.slice(index + 1)];
+        });
+      }
+    }
+  };
+
+  const remove = async (documentId: string) => {
+    setDocuments(prev => prev.filter(document => document.id !== documentId));
+    try {
+      const response = await fetch(`/api/documents/${documentId}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw new Error(`HTTP ${response.status}`);
+    } catch (removeError) {
+      console.error('Failed to remove document:', removeError);
+      setError('Could not remove the document');
+    }
+  };
+
+  return {
+    documents: documents.filter(document => document.chatId === chatId),
+    uploading,
+    error,
+    upload,
+    remove,
+    dismissError: () => setError(null)
+  };
+}
@@ -1,45 +1,111 @@
-import { Chat, ChatHistoryState, ChatMessage, SearchResponse } from '@/types';
-import { useState, useEffect } from 'react';
+import { Chat, ChatHistoryState, ChatMessage, Collection, SearchFocus, SearchResponse } from '@/types';
+import { useState, useEffect, useRef } from 'react';
+import { getActiveLeafId, getLatestLeaf } from '@/lib/chatBranches';
+import { parseChat, parseCollection } from '@/lib/chatPayload';
 
+// Legacy browser-only history, imported into the server store once and then removed
 const STORAGE_KEY = 'perplexity_chat_history';
 
+const parseChats = (raw: unknown): Chat[] =>
+  Array.isArray(raw) ? raw.map(parseChat).filter((chat): chat is Chat => chat !== null) : [];
+
 export function useChatHistory() {
   const [chatState, setChatState] = useState<ChatHistoryState>({
     chats: [],
+    collections: [],
     currentChatId: null,
     isLoading: false
   });
 
+  // The latest state, updated as soon as a change is made. Mutators read it instead of using
+  // setChatState updaters, which React may call twice, so their server writes run exactly once
+  const chatStateRef = useRef(chatState);
+  const updateState = (update: (prev: ChatHistoryState) => ChatHistoryState) => {
+    chatStateRef.current = update(chatStateRef.current);
+    setChatState(chatStateRef.current);
+  };
+
+  // Server writes run one after another so a message is never appended before its chat exists
+  const syncQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const sync = (path: string, method: string, body?: unknown) => {
+    syncQueue.current = syncQueue.current.then(async () => {
+      try {
+        const response = await fetch(path, {
+          method,
+          headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+      } catch (error) {
+        console.error(`Failed to sync ${method} ${path}:`, error);
+      }
+    });
+  };
+
+  // Resolves once every queued write has reached the server, e.g. before uploading to a new chat
+  const whenSynced = () => syncQueue.current;
+
   useEffect(() => {
-    const savedChats = localStorage.getItem(STORAGE_KEY);
-    if (savedChats) {
+    const importLocalHistory = async () => {
+      const savedChats = localStorage.getItem(STORAGE_KEY);
+      if (!savedChats) return;
+
+      const chats = parseChats(JSON.parse(savedChats));
+      // A 409 means the chat or one of its message ids belongs to another chat, so sending it again cannot succeed either
+      const settled = await Promise.all(chats.map(chat =>
+        fetch('/api/chats', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(chat),
+        }).then(response => response.ok || response.status === 409, () => false)
+      ));
+
+      // Keep only the chats that still need importing, so the others are not sent again
+      const remaining = chats.filter((_, index) => !settled[index]);
+      if (remaining.length === 0) {
+        localStorage.removeItem(STORAGE_KEY);
+      } else {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+      }
+    };
+
+    const loadChats = async () => {
+      updateState(prev => ({ ...prev, isLoading: true }));
       try {
-        const parsed = JSON.parse(savedChats);
-        const chats = parsed.map((chat: any) => ({
-          ...chat,
-          createdAt: new Date(chat.createdAt),
-          updatedAt: new Date(chat.updatedAt),
-          messages: chat.messages.map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          }))
+        await importLocalHistory();
+
+        const [chatsResponse, collectionsResponse] = await Promise.all([fetch('/api/chats'), fetch('/api/collections')]);
+        if (!chatsResponse.ok || !collectionsResponse.ok) {
+          throw new Error(`HTTP ${chatsResponse.ok ? collectionsResponse.status : chatsResponse.status}`);
+        }
+        const serverChats = parseChats((await chatsResponse.json()).chats);
+        const serverIds = new Set(serverChats.map(chat => chat.id));
+        const rawCollections: unknown[] = (await collectionsResponse.json()).collections ?? [];
+        const serverCollections = rawCollections
+          .map(parseCollection)
+          .filter((collection): collection is Collection => collection !== null);
+        const serverCollectionIds = new Set(serverCollections.map(collection => collection.id));
+
+        // Chats and collections created while loading are not on the server lists yet
+        updateState(prev => ({
+          ...prev,
+          chats: [...prev.chats.filter(chat => !serverIds.has(chat.id)), ...serverChats],
+          collections: [...prev.collections.filter(c => !serverCollectionIds.has(c.id)), ...serverCollections],
+          isLoading: false
         }));
-        setChatState(prev => ({ ...prev, chats }));
       } catch (error) {
         console.error('Failed to load chat history:', error);
+        updateState(prev => ({ ...prev, isLoading: false }));
       }
-    }
-  }, []);
+    };
 
-  const saveChats = (chats: Chat[]) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(chats));
-    } catch (error) {
-      console.error('Failed to save chat history:', error);
-    }
-  };
+    loadChats();
+  }, []);
 
-  const createNewChat = (firstQuery?: string): string => {
+  const createNewChat = (firstQuery?: string, collectionId?: string): string => {
     const newChatId = `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const title = firstQuery 
       ? 'New Chat...'
@@ -50,31 +116,26 @@ export function useChatHistory() {
       title,
       messages: [],
       createdAt: new Date(),
-      updatedAt: new Date()
+      updatedAt: new Date(),
+      collectionId
     };
 
-    setChatState(prev => {
-      const updatedChats = [newChat, ...prev.chats];
-      saveChats(updatedChats);
-      return {
-        ...prev,
-        chats: updatedChats,
-        currentChatId: newChatId
-      };
-    });
+    updateState(prev => ({
+      ...prev,
+      chats: [newChat, ...prev.chats],
+      currentChatId: newChatId
+    }));
+    sync('/api/chats', 'POST', newChat);
 
     return newChatId;
   };
 
   const generateAITitle = async (query: string): Promise<string> => {
     try {
-      const response = await fetch('/api/search', {
+      const response = await fetch('/api/title', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          query, 
-          generateTitle: true 
-        }),
+        body: JSON.stringify({ query }),
       });
 
       if (response.ok) {
@@ -89,76 +150,73 @@ export function useChatHistory() {
     }
   };
 
-  const addMessageToChat = async (query: string, response: SearchResponse) => {
-    setChatState(prev => {
-      let currentChatId = prev.currentChatId;
-      
-      if (!currentChatId || !prev.chats.find(c => c.id === currentChatId)) {
-        const newChatId = `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const title = 'Generating title...';
-
-        const newChat: Chat = {
-          id: newChatId,
-          title,
-          messages: [],
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
+  // parentId places the message as a new version of an earlier turn; by default it continues the active branch
+  const addMessageToChat = async (query: string, response: SearchResponse, focus?: SearchFocus, parentId?: string | null) => {
+    const prev = chatStateRef.current;
+    let chats = prev.chats;
+    let currentChatId = prev.currentChatId;
 
-        currentChatId = newChatId;
-        prev = {
-          ...prev,
-          chats: [newChat, ...prev.chats],
-          currentChatId: newChatId
-        };
-      }
-
-      const newMessage: ChatMessage = {
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        query,
-        response,
-        timestamp: new Date()
+    let newChat: Chat | null = null;
+    if (!currentChatId || !chats.find(c => c.id === currentChatId)) {
+      newChat = {
+        id: `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        title: 'Generating title...',
+        messages: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
       };
+      currentChatId = newChat.id;
+      chats = [newChat, ...chats];
+    }
+
+    const targetChat = chats.find(c => c.id === currentChatId)!;
+    const newMessage: ChatMessage = {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      query,
+      response,
+      timestamp: new Date(),
+      focus,
+      parentId: parentId !== undefined ? parentId : getActiveLeafId(targetChat)
+    };
+    const needsTitle = targetChat.messages.length === 0 && !targetChat.titleEdited;
 
-      const updatedChats = prev.chats.map(chat => {
-        if (chat.id === currentChatId) {
-          const isFirstMessage = chat.messages.length === 0;
-          const updatedChat = {
-            ...chat,
-            messages: [...chat.messages, newMessage],
-            updatedAt: new Date(),
-            title: isFirstMessage ? 'Generating title...' : chat.title
-          };
-          return updatedChat;
+    updateState(state => ({
+      ...state,
+      chats: chats.map(chat => chat.id === currentChatId
+        ? {
+          ...chat,
+          messages: [...chat.messages, newMessage],
+          activeMessageId: newMessage.id,
+          updatedAt: new Date(),
+          title: needsTitle ? 'Generating title...' : chat.title,
+          model: response.model ?? chat.model
         }
-        return chat;
-      });
+        : chat
+      ),
+      currentChatId
+    }));
 
-      saveChats(updatedChats);
-
-      if (updatedChats.find(c => c.id === currentChatId)?.messages.length === 1) {
-        generateAITitle(query).then(aiTitle => {
-          setChatState(currentState => {
-            const newChats = currentState.chats.map(chat => 
-              chat.id === currentChatId 
-                ? { ...chat, title: aiTitle }
-                : chat
-            );
-            saveChats(newChats);
-            return {
-              ...currentState,
-              chats: newChats
-            };
-          });
-        });
-      }
+    if (newChat) {
+      sync('/api/chats', 'POST', newChat);
+    }
+    sync(`/api/chats/${currentChatId}/messages`, 'POST', newMessage);
+    if (response.model) {
+      sync(`/api/chats/${currentChatId}`, 'PATCH', { model: response.model });
+    }
 
-      return {
-        ...prev,
-        chats: updatedChats,
-        currentChatId
-      };
-    });
+    if (needsTitle) {
+      const chatId = currentChatId;
+      generateAITitle(query).then(aiTitle => {
+        sync(`/api/chats/${chatId}`, 'PATCH', { title: aiTitle });
+        // A rename while the title was generating wins
+        updateState(state => ({
+          ...state,
+          chats: state.chats.map(chat =>
+            chat.id === chatId && !chat.titleEdited ? { ...chat, title: aiTitle } : chat
+          )
+        }));
+      });
+    }
   };
 
   const generateChatTitle = (query: string, response: SearchResponse): string => {
@@ -258,37 +316,150 @@ export function useChatHistory() {
   };
 
   const switchToChat = (chatId: string) => {
-    setChatState(prev => ({
+    updateState(prev => ({
       ...prev,
       currentChatId: chatId
     }));
   };
 
+  // Show another version of a message, continuing with the newest reply under it
+  const selectBranch = (chatId: string, messageId: string) => {
+    const chat = chatStateRef.current.chats.find(c => c.id === chatId);
+    if (!chat) return;
+    const activeMessageId = getLatestLeaf(chat.messages, messageId);
+    updateState(prev => ({
+      ...prev,
+      chats: prev.chats.map(c => c.id === chatId ? { ...c, activeMessageId } : c)
+    }));
+    sync(`/api/chats/${chatId}`, 'PATCH', { activeMessageId });
+  };
+
+  const setChatModel = (chatId: string, model: string) => {
+    updateState(prev => {
+      const updatedChats = prev.chats.map(chat =>
+        chat.id === chatId ? { ...chat, model } : chat
+      );
+      return {
+        ...prev,
+        chats: updatedChats
+      };
+    });
+    sync(`/api/chats/${chatId}`, 'PATCH', { model });
+  };
+
+  // Apply changes to one chat locally and on the server
+  const updateChat = (chatId: string, changes: Partial<Pick<Chat, 'title' | 'titleEdited' | 'pinned'>> & { collectionId?: string | null }) => {
+    updateState(prev => ({
+      ...prev,
+      chats: prev.chats.map(chat =>
+        chat.id === chatId
+          ? { ...chat, ...changes, collectionId: changes.collectionId === undefined ? chat.collectionId : changes.collectionId ?? undefined }
+          : chat
+      )
+    }));
+    sync(`/api/chats/${chatId}`, 'PATCH', changes);
+  };
+
+  // Manual titles are kept even when a generated title arrives later
+  const renameChat = (chatId: string, title: string) => {
+    const trimmed = title.trim();
+    if (trimmed) updateChat(chatId, { title: trimmed, titleEdited: true });
+  };
+
+  const setChatPinned = (chatId: string, pinned: boolean) => updateChat(chatId, { pinned });
+
+  const moveChatToCollection = (chatId: string, collectionId: string | null) => updateChat(chatId, { collectionId });
+
+  const createCollection = (fields: Pick<Collection, 'name' | 'instructions' | 'defaultFocus'>): string => {
+    const collection: Collection = {
+      id: `collection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...fields,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    updateState(prev => ({ ...prev, collections: [...prev.collections, collection] }));
+    sync('/api/collections', 'POST', collection);
+    return collection.id;
+  };
+
+  const updateCollection = (collectionId: string, fields: Pick<Collection, 'name' | 'instructions' | 'defaultFocus'>) => {
+    updateState(prev => ({
+      ...prev,
+      collections: prev.collections.map(collection =>
+        collection.id === collectionId ? { ...collection, ...fields, updatedAt: new Date() } : collection
+      )
+    }));
+    // Missing fields are sent as null so clearing them reaches the server
+    sync(`/api/collections/${collectionId}`, 'PATCH', {
+      name: fields.name,
+      instructions: fields.instructions ?? null,
+      defaultFocus: fields.defaultFocus ?? null
+    });
+  };
+
+  // The collection's chats are kept and become ungrouped, as on the server
+  const deleteCollection = (collectionId: string) => {
+    updateState(prev => ({
+      ...prev,
+      collections: prev.collections.filter(collection => collection.id !== collectionId),
+      chats: prev.chats.map(chat =>
+        chat.collectionId === collectionId ? { ...chat, collectionId: undefined } : chat
+      )
+    }));
+    sync(`/api/collections/${collectionId}`, 'DELETE');
+  };
+
   const deleteChat = (chatId: string) => {
-    setChatState(prev => {
+    updateState(prev => {
       const updatedChats = prev.chats.filter(chat => chat.id !== chatId);
       const newCurrentChatId = prev.currentChatId === chatId 
         ? (updatedChats.length > 0 ? updatedChats[0].id : null)
         : prev.currentChatId;
       
-      saveChats(updatedChats);
       return {
         ...prev,
         chats: updatedChats,
         currentChatId: newCurrentChatId
       };
     });
+    sync(`/api/chats/${chatId}`, 'DELETE');
   };
 
   const clearAllChats = () => {
-    setChatState({
+    updateState(prev => ({
+      ...prev,
       chats: [],
       currentChatId: null,
       isLoading: false
-    });
+    }));
+    sync('/api/chats', 'DELETE');
     localStorage.removeItem(STORAGE_KEY);
   };
 
+  // Add chats from an export file; chats whose id is already in the history are skipped
+  const importChats = (imported: Chat[]): { added: number; skipped: number } => {
+    const knownIds = new Set(chatStateRef.current.chats.map(chat => chat.id));
+    const added = imported.filter(chat => {
+      if (knownIds.has(chat.id)) return false;
+      knownIds.add(chat.id);
+      return true;
+    });
+
+    if (added.length > 0) {
+      updateState(prev => {
+        const addedIds = new Set(added.map(chat => chat.id));
+        return {
+          ...prev,
+          chats: [...added, ...prev.chats.filter(chat => !addedIds.has(chat.id))]
+            .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+        };
+      });
+      added.forEach(chat => sync('/api/chats', 'POST', chat));
+    }
+
+    return { added: added.length, skipped: imported.length - added.length };
+  };
+
   const getCurrentChat = (): Chat | null => {
     if (!chatState.currentChatId) return null;
     return chatState.chats.find(chat => chat.id === chatState.currentChatId) || null;
@@ -296,12 +467,23 @@ export function useChatHistory() {
 
   return {
     chats: chatState.chats,
+    collections: chatState.collections,
     currentChat: getCurrentChat(),
     currentChatId: chatState.currentChatId,
     createNewChat,
     addMessageToChat,
     switchToChat,
+    selectBranch,
+    setChatModel,
     deleteChat,
-    clearAllChats
+    clearAllChats,
+    importChats,
+    renameChat,
+    setChatPinned,
+    moveChatToCollection,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    whenSynced
   };
 }
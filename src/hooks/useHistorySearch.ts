@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { HistorySearchApiResponse, HistorySearchHit } from '@/types';
+
+export interface HistorySearchFilterState {
+  from: string; // yyyy-mm-dd from a date input, or empty
+  to: string;
+  domain: string;
+}
+
+const EMPTY_FILTERS: HistorySearchFilterState = { from: '', to: '', domain: '' };
+
+// Debounced search over the server-side chat history
+export function useHistorySearch(delayMs = 250) {
+  const [text, setText] = useState('');
+  const [filters, setFilters] = useState<HistorySearchFilterState>(EMPTY_FILTERS);
+  const [results, setResults] = useState<HistorySearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isActive = text.trim() !== '' || filters.from !== '' || filters.to !== '' || filters.domain.trim() !== '';
+
+  useEffect(() => {
+    if (!isActive) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    const params = new URLSearchParams();
+    if (text.trim()) params.set('q', text.trim());
+    // Date inputs are in local time; "to" includes the whole day
+    if (filters.from) params.set('from', new Date(`${filters.from}T00:00`).toISOString());
+    if (filters.to) {
+      const end = new Date(`${filters.to}T00:00`);
+      end.setDate(end.getDate() + 1);
+      params.set('to', end.toISOString());
+    }
+    if (filters.domain.trim()) params.set('domain', filters.domain.trim());
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await fetch(`/api/chats/search?${params}`, { signal: controller.signal });
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `HTTP ${response.status}`);
+        }
+        const data: HistorySearchApiResponse = await response.json();
+        setResults(data.results.map(hit => ({ ...hit, timestamp: new Date(hit.timestamp) })));
+        setError(null);
+      } catch (searchError) {
+        if (controller.signal.aborted) return;
+        console.error('History search failed:', searchError);
+        setError(searchError instanceof Error ? searchError.message : 'Search failed');
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, delayMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [text, filters, isActive, delayMs]);
+
+  const clear = () => {
+    setText('');
+    setFilters(EMPTY_FILTERS);
+  };
+
+  return { text, setText, filters, setFilters, results, isSearching, isActive, error, clear };
+}
@@ -0,0 +1,101 @@
+import type { Parent, Root, Text } from 'mdast';
+import { defaultSchema, type Options as SanitizeSchema } from 'rehype-sanitize';
+import { ClaimVerification } from '@/types';
+import { splitSentences } from './citations';
+
+// Answers are Markdown with [n] citation markers. This remark plugin turns each marker in a
+// text node into a <cite> element carrying the citation number and the index of the answer
+// sentence it belongs to (matching ClaimVerification.sentenceIndex), so chips work inside
+// any element. Text of sentences listed in unsupportedSentences is wrapped in a span marked
+// data-unsupported. Markers inside code are left alone
+export interface RemarkCitationsOptions {
+  answer: string; // the Markdown the tree was parsed from
+  unsupportedSentences?: Set<number>;
+}
+
+const MARKER = /\[(\d+)\]/g;
+
+// Sentences none of whose cited claims are supported, even weakly. Both the underlines and the
+// count in the warning banner come from here, so they always agree
+export function getUnsupportedSentences(claims: ClaimVerification[]): Set<number> {
+  const bySentence = new Map<number, ClaimVerification[]>();
+  for (const claim of claims) {
+    bySentence.set(claim.sentenceIndex, [...(bySentence.get(claim.sentenceIndex) ?? []), claim]);
+  }
+  return new Set([...bySentence].filter(([, own]) => own.every(c => c.verdict === 'unsupported')).map(([index]) => index));
+}
+
+export function remarkCitations({ answer, unsupportedSentences = new Set() }: RemarkCitationsOptions) {
+  // Offset just past the end of each sentence
+  const sentenceEnds: number[] = [];
+  let offset = 0;
+  for (const sentence of splitSentences(answer)) {
+    offset += sentence.length;
+    sentenceEnds.push(offset);
+  }
+  const sentenceAt = (position: number) => {
+    const index = sentenceEnds.findIndex(end => position < end);
+    return index === -1 ? sentenceEnds.length - 1 : index;
+  };
+
+  const textNode = (value: string, sentence: number): Text => unsupportedSentences.has(sentence)
+    ? { type: 'text', value, data: { hName: 'span', hProperties: { dataUnsupported: true } } }
+    : { type: 'text', value };
+
+  const splitText = (node: Text): Text[] => {
+    const start = node.position?.start.offset;
+    // Escapes and entities make the node value differ from the source; then every piece
+    // of the node is placed in the sentence the node starts in
+    const aligned = start !== undefined && answer.slice(start, start + node.value.length) === node.value;
+    const sentenceOf = (index: number) => start === undefined ? -1 : sentenceAt(aligned ? start + index : start);
+
+    // Cut points: every marker, and every sentence boundary inside the node
+    const cuts = new Set<number>([0, node.value.length]);
+    for (const match of node.value.matchAll(MARKER)) {
+      cuts.add(match.index);
+      cuts.add(match.index + match[0].length);
+    }
+    if (aligned) {
+      for (const end of sentenceEnds) {
+        if (end > start && end < start + node.value.length) cuts.add(end - start);
+      }
+    }
+    if (cuts.size === 2 && unsupportedSentences.size === 0) return [node];
+
+    const points = [...cuts].sort((a, b) => a - b);
+    const pieces: Text[] = [];
+    for (let i = 0; i + 1 < points.length; i++) {
+      const value = node.value.slice(points[i], points[i + 1]);
+      if (!value) continue;
+      const sentence = sentenceOf(points[i]);
+      const marker = /^\[(\d+)\]$/.exec(value);
+      pieces.push(marker
+        ? { type: 'text', value: marker[1], data: { hName: 'cite', hProperties: { dataCitation: Number(marker[1]), dataSentence: sentence } } }
+        : textNode(value, sentence));
+    }
+    return pieces;
+  };
+
+  const transform = (parent: Parent) => {
+    parent.children = parent.children.flatMap((child): Parent['children'] => {
+      if (child.type === 'text') return splitText(child);
+      if ('children' in child) transform(child);
+      return [child];
+    });
+  };
+
+  return (tree: Root) => transform(tree);
+}
+
+// Raw HTML in answers is parsed and then cleaned with GitHub's rules, plus what the
+// renderer itself emits: citation elements, unsupported-claim spans, math and code languages
+export const answerSanitizeSchema: SanitizeSchema = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames ?? []), 'cite'],
+  attributes: {
+    ...defaultSchema.attributes,
+    cite: ['dataCitation', 'dataSentence'],
+    span: [...(defaultSchema.attributes?.span ?? []), 'dataUnsupported'],
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { ApiError, ApiErrorCode, ApiErrorStage, FieldError } from '@/types';
+
+// Structured API errors. Edge-safe, so the middleware can answer with them too; mapping
+// thrown errors to codes lives in classifyError.ts
+
+interface ErrorDefinition {
+  status: number;
+  stage: ApiErrorStage;
+  retryable: boolean;
+  message: string;
+}
+
+const ERRORS: Record<ApiErrorCode, ErrorDefinition> = {
+  invalid_json: { status: 400, stage: 'parse', retryable: false, message: 'Request body must be valid JSON' },
+  invalid_request: { status: 400, stage: 'parse', retryable: false, message: 'The request is invalid' },
+  unauthorized: { status: 401, stage: 'server', retryable: false, message: 'Sign in or send a valid API key' },
+  rate_limited: { status: 429, stage: 'server', retryable: true, message: 'Too many searches. Please wait a moment and try again.' },
+  quota_exceeded: { status: 429, stage: 'server', retryable: false, message: 'Daily search quota reached. Please try again tomorrow.' },
+  not_configured: { status: 500, stage: 'server', retryable: false, message: 'Searching is not configured on this server' },
+  search_failed: { status: 502, stage: 'search', retryable: true, message: 'The search providers returned an error.' },
+  search_timeout: { status: 504, stage: 'search', retryable: true, message: 'The search took too long.' },
+  search_unavailable: { status: 503, stage: 'search', retryable: true, message: 'The search providers could not be reached.' },
+  search_auth_failed: { status: 500, stage: 'search', retryable: false, message: 'A search provider rejected its API key.' },
+  llm_failed: { status: 502, stage: 'llm', retryable: false, message: 'The language model could not write an answer.' },
+  llm_timeout: { status: 504, stage: 'llm', retryable: true, message: 'The language model took too long to answer.' },
+  llm_unavailable: { status: 503, stage: 'llm', retryable: true, message: 'The language model could not be reached.' },
+  llm_rate_limited: { status: 503, stage: 'llm', retryable: true, message: 'The language model is busy.' },
+  llm_quota_exceeded: { status: 503, stage: 'llm', retryable: false, message: 'API quota exceeded. Please try again later.' },
+  llm_auth_failed: { status: 500, stage: 'llm', retryable: false, message: 'Invalid API configuration' },
+  internal_error: { status: 500, stage: 'server', retryable: false, message: 'An error occurred while processing your request. Please try again.' },
+};
+
+export const API_ERROR_CODES = Object.keys(ERRORS) as ApiErrorCode[];
+
+// Reuse the caller's id (X-Correlation-Id or X-Request-Id) so logs on both sides line up
+export function createCorrelationId(headers: Headers): string {
+  const incoming = headers.get('x-correlation-id') ?? headers.get('x-request-id');
+  return incoming && /^[\w.:-]{1,64}$/.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+export function apiError(
+  code: ApiErrorCode,
+  correlationId: string,
+  { message, details, retryAfter, fields }: { message?: string; details?: string; retryAfter?: number; fields?: FieldError[] } = {}
+): ApiError {
+  const { stage, retryable, message: defaultMessage } = ERRORS[code];
+  return { error: message ?? defaultMessage, code, stage, retryable, correlationId, details, retryAfter, fields };
+}
+
+// A 400 listing the invalid fields; the message names the first one
+export function invalidRequest(fields: FieldError[], correlationId: string): ApiError {
+  const more = fields.length > 1 ? ` (and ${fields.length - 1} more)` : '';
+  return apiError('invalid_request', correlationId, { message: `${fields[0].message}${more}`, fields });
+}
+
+export function apiErrorResponse(error: ApiError, headers: Record<string, string> = {}): NextResponse {
+  return NextResponse.json(error, {
+    status: ERRORS[error.code].status,
+    headers: {
+      ...headers,
+      'X-Correlation-Id': error.correlationId,
+      ...(error.retryAfter !== undefined && { 'Retry-After': String(error.retryAfter) }),
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createApiKey, isValidApiKey, listApiKeys, readApiKey, revokeApiKey } from './apiKeys';
+import { createUser } from './auth/users';
+
+process.env.DATABASE_PATH = ':memory:';
+
+test('the key is read from X-API-Key or a bearer token', () => {
+  assert.equal(readApiKey(new Headers({ 'x-api-key': ' k1 ' })), 'k1');
+  assert.equal(readApiKey(new Headers({ authorization: 'Bearer k2' })), 'k2');
+  assert.equal(readApiKey(new Headers({ authorization: 'Basic k3' })), null);
+  assert.equal(readApiKey(new Headers()), null);
+});
+
+test('configured keys are valid; other strings are not', () => {
+  process.env.API_KEYS = 'key-one, key-two';
+  assert.equal(isValidApiKey('key-two'), true);
+  assert.equal(isValidApiKey('key-three'), false);
+  assert.equal(isValidApiKey('rmx_made-up'), false);
+});
+
+test('issued keys work until revoked, and only their owner can revoke them', () => {
+  const owner = createUser({ email: 'keys@example.com', passwordHash: null })!;
+  const other = createUser({ email: 'not-owner@example.com', passwordHash: null })!;
+  const { apiKey, key } = createApiKey(owner.id, 'CI');
+
+  assert.equal(isValidApiKey(key), true);
+  assert.equal(key.startsWith(apiKey.prefix), true);
+  assert.ok(listApiKeys(owner.id)[0].lastUsedAt);
+  assert.deepEqual(listApiKeys(other.id), []);
+
+  assert.equal(revokeApiKey(other.id, apiKey.id), false);
+  assert.equal(isValidApiKey(key), true);
+  assert.equal(revokeApiKey(owner.id, apiKey.id), true);
+  assert.equal(isValidApiKey(key), false);
+  assert.deepEqual(listApiKeys(owner.id), []);
+});
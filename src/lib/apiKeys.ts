@@ -0,0 +1,82 @@
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeyInfo } from '@/types';
+import { getDb } from './db';
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+const KEY_PREFIX = 'rmx_';
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toApiKey(row: ApiKeyRow): ApiKeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    createdAt: new Date(row.created_at),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+  };
+}
+
+// The key sent as X-API-Key or as a bearer token, if any
+export function readApiKey(headers: Headers): string | null {
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return (headers.get('x-api-key') || bearer || '').trim() || null;
+}
+
+// API_KEYS is a comma-separated list of keys configured on the server; they never expire
+function isConfiguredApiKey(key: string): boolean {
+  return (process.env.API_KEYS || '').split(',').map(k => k.trim()).filter(Boolean).includes(key);
+}
+
+// Configured keys, and issued keys that have not been revoked. Issued keys record when they were last used
+export function isValidApiKey(key: string): boolean {
+  if (isConfiguredApiKey(key)) return true;
+  if (!key.startsWith(KEY_PREFIX)) return false;
+
+  return getDb()
+    .prepare('UPDATE api_keys SET last_used_at = ? WHERE key_hash = ? AND revoked_at IS NULL')
+    .run(new Date().toISOString(), hashKey(key)).changes > 0;
+}
+
+export function listApiKeys(userId: string): ApiKeyInfo[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM api_keys WHERE user_id = ? AND revoked_at IS NULL ORDER BY created_at DESC')
+    .all(userId) as ApiKeyRow[];
+  return rows.map(toApiKey);
+}
+
+// The returned key is not stored and cannot be shown again
+export function createApiKey(userId: string, name: string): { apiKey: ApiKeyInfo; key: string } {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const row: ApiKeyRow = {
+    id: `key_${randomBytes(9).toString('base64url')}`,
+    user_id: userId,
+    name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    created_at: new Date().toISOString(),
+    last_used_at: null,
+  };
+
+  getDb().prepare(
+    `INSERT INTO api_keys (id, user_id, name, prefix, key_hash, created_at)
+     VALUES (@id, @user_id, @name, @prefix, @key_hash, @created_at)`
+  ).run({ ...row, key_hash: hashKey(key) });
+  return { apiKey: toApiKey(row), key };
+}
+
+// Revoked keys stop working immediately
+export function revokeApiKey(userId: string, id: string): boolean {
+  return getDb()
+    .prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL')
+    .run(new Date().toISOString(), id, userId).changes > 0;
+}
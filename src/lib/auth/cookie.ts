@@ -0,0 +1,2 @@
+// Shared with the middleware, which runs on the edge runtime, so this file must not import Node modules
+export const SESSION_COOKIE = 'romnexity_session';
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { User } from '@/types';
+import { SESSION_COOKIE } from './cookie';
+import { createSession, deleteSession, getSessionUser } from './sessions';
+import { countUsers } from './users';
+
+export { SESSION_COOKIE } from './cookie';
+export type { AuthProvider, CredentialsProvider } from './providers';
+export { credentialsProvider, getAuthProviders } from './providers';
+export { claimUnownedHistory, countUsers, createUser, findUserByEmail, getUser, hashPassword, updateUserSettings } from './users';
+
+export interface AuthConfig {
+  allowSignup: boolean; // the first account can always be created
+  sessionDays: number;
+  secureCookies: boolean;
+}
+
+// AUTH_ALLOW_SIGNUP=false closes registration once the first account exists
+export function getAuthConfig(): AuthConfig {
+  return {
+    allowSignup: process.env.AUTH_ALLOW_SIGNUP !== 'false',
+    sessionDays: Number(process.env.AUTH_SESSION_DAYS) || 30,
+    secureCookies: process.env.AUTH_SECURE_COOKIES
+      ? process.env.AUTH_SECURE_COOKIES === 'true'
+      : process.env.NODE_ENV === 'production',
+  };
+}
+
+export function isSignupAllowed(): boolean {
+  return getAuthConfig().allowSignup || countUsers() === 0;
+}
+
+// The signed-in user, or null when the cookie is missing, unknown or expired
+export function getRequestUser(request: NextRequest): User | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? getSessionUser(token) : null;
+}
+
+export function unauthorized(): NextResponse {
+  return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+}
+
+// Start a session and put its token in an httpOnly cookie on the response
+export function startSession(response: NextResponse, userId: string): NextResponse {
+  const { sessionDays, secureCookies } = getAuthConfig();
+  const maxAge = sessionDays * 24 * 60 * 60;
+  const { token } = createSession(userId, maxAge);
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: secureCookies,
+    path: '/',
+    maxAge,
+  });
+  return response;
+}
+
+export function endSession(request: NextRequest, response: NextResponse): NextResponse {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) deleteSession(token);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
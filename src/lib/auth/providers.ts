@@ -0,0 +1,35 @@
+import { AuthProviderInfo, User } from '@/types';
+import { findUserByEmail, getUser, hashPassword, verifyPassword } from './users';
+
+// A way to sign in. Every provider ends by starting a session for a row in the users
+// table. An OIDC provider would add a redirect to the identity provider and a callback
+// route that finds or creates the user by the verified email claim (password_hash null)
+export interface CredentialsProvider extends AuthProviderInfo {
+  type: 'credentials';
+  authorize(email: string, password: string): Promise<User | null>;
+}
+
+export type AuthProvider = CredentialsProvider;
+
+// Compared against when the email is unknown, so a wrong email takes as long as a wrong password
+let unknownUserHash: Promise<string> | null = null;
+
+export const credentialsProvider: CredentialsProvider = {
+  id: 'credentials',
+  name: 'Email and password',
+  type: 'credentials',
+  async authorize(email, password) {
+    const user = findUserByEmail(email);
+    if (!user?.passwordHash) {
+      unknownUserHash ??= hashPassword('unknown user');
+      await verifyPassword(password, await unknownUserHash);
+      return null;
+    }
+
+    return await verifyPassword(password, user.passwordHash) ? getUser(user.id) : null;
+  },
+};
+
+export function getAuthProviders(): AuthProvider[] {
+  return [credentialsProvider];
+}
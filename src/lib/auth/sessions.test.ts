@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createSession, deleteSession, getSessionUser } from './sessions';
+import { createUser, hashPassword, verifyPassword } from './users';
+
+process.env.DATABASE_PATH = ':memory:';
+
+test('passwords verify against their own hash only', async () => {
+  const stored = await hashPassword('correct horse');
+  assert.equal(await verifyPassword('correct horse', stored), true);
+  assert.equal(await verifyPassword('wrong horse', stored), false);
+  assert.equal(await verifyPassword('correct horse', 'plain:text'), false);
+});
+
+test('a session signs its user in until it is deleted', () => {
+  const user = createUser({ email: 'session@example.com', passwordHash: null })!;
+  const { token } = createSession(user.id, 60);
+
+  assert.equal(getSessionUser(token)?.id, user.id);
+  assert.equal(getSessionUser(`${token}x`), null);
+  deleteSession(token);
+  assert.equal(getSessionUser(token), null);
+});
+
+test('expired sessions sign nobody in', () => {
+  const user = createUser({ email: 'expired@example.com', passwordHash: null })!;
+  const { token } = createSession(user.id, -1);
+  assert.equal(getSessionUser(token), null);
+});
+
+test('an email can only be registered once', () => {
+  assert.ok(createUser({ email: 'once@example.com', passwordHash: null }));
+  assert.equal(createUser({ email: 'once@example.com', passwordHash: null }), null);
+});
@@ -0,0 +1,34 @@
+import { createHash, randomBytes } from 'crypto';
+import { User } from '@/types';
+import { getDb } from '@/lib/db';
+import { getUser } from './users';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// The token goes into the session cookie; only its hash is stored, so a copy of the
+// database cannot be used to sign in
+export function createSession(userId: string, maxAgeSeconds: number): { token: string; expiresAt: Date } {
+  const db = getDb();
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + maxAgeSeconds * 1000);
+
+  db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(now.toISOString());
+  db.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+    .run(hashToken(token), userId, now.toISOString(), expiresAt.toISOString());
+  return { token, expiresAt };
+}
+
+// Expired and unknown tokens both give null
+export function getSessionUser(token: string): User | null {
+  const row = getDb()
+    .prepare('SELECT user_id FROM sessions WHERE token_hash = ? AND expires_at > ?')
+    .get(hashToken(token), new Date().toISOString()) as { user_id: string } | undefined;
+  return row ? getUser(row.user_id) : null;
+}
+
+export function deleteSession(token: string): void {
+  getDb().prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+}
@@ -0,0 +1,95 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { User, UserSettings } from '@/types';
+import { getDb } from '@/lib/db';
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string | null;
+  password_hash: string | null;
+  settings: string;
+  created_at: string;
+}
+
+const deriveKey = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name ?? undefined,
+    createdAt: new Date(row.created_at),
+    settings: JSON.parse(row.settings) as UserSettings,
+  };
+}
+
+// Stored as scrypt:<salt>:<key>, both base64url
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('base64url')}:${key.toString('base64url')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64url');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function getUser(id: string): User | null {
+  const row = getDb().prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+// Emails compare case-insensitively (the column is COLLATE NOCASE)
+export function findUserByEmail(email: string): (User & { passwordHash: string | null }) | null {
+  const row = getDb().prepare('SELECT * FROM users WHERE email = ?').get(email.trim()) as UserRow | undefined;
+  return row ? { ...toUser(row), passwordHash: row.password_hash } : null;
+}
+
+export function countUsers(): number {
+  return (getDb().prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number }).count;
+}
+
+// Returns null if the email is taken
+export function createUser({ email, name, passwordHash }: {
+  email: string;
+  name?: string;
+  passwordHash: string | null;
+}): User | null {
+  const db = getDb();
+  const id = `user_${randomBytes(9).toString('base64url')}`;
+
+  const { changes } = db.prepare(
+    `INSERT OR IGNORE INTO users (id, email, name, password_hash, created_at) VALUES (?, ?, ?, ?, ?)`
+  ).run(id, email.trim(), name?.trim() || null, passwordHash, new Date().toISOString());
+
+  return changes > 0 ? getUser(id) : null;
+}
+
+// Give the chats and collections saved before accounts existed to one account. Only run by an
+// administrator (npm run auth:claim-history), never on sign-up, so a stranger cannot take them
+export function claimUnownedHistory(userId: string): { chats: number; collections: number } {
+  const db = getDb();
+  return db.transaction(() => ({
+    chats: db.prepare('UPDATE chats SET user_id = ? WHERE user_id IS NULL').run(userId).changes,
+    collections: db.prepare('UPDATE collections SET user_id = ? WHERE user_id IS NULL').run(userId).changes,
+  }))();
+}
+
+// Merges the changes into the saved settings; undefined values leave a setting as it is
+export function updateUserSettings(id: string, changes: UserSettings): User | null {
+  const user = getUser(id);
+  if (!user) return null;
+
+  const settings = { ...user.settings };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value !== undefined) settings[key as keyof UserSettings] = value;
+  }
+  getDb().prepare('UPDATE users SET settings = ? WHERE id = ?').run(JSON.stringify(settings), id);
+  return { ...user, settings };
+}
@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import { getDb } from './db';
+
+export interface CacheConfig {
+  searchTtlSeconds: number;
+  answerTtlSeconds: number;
+}
+
+// CACHE_SEARCH_TTL and CACHE_ANSWER_TTL are in seconds; 0 disables that cache
+export function getCacheConfig(): CacheConfig {
+  return {
+    searchTtlSeconds: parseTtl(process.env.CACHE_SEARCH_TTL, 60 * 60),
+    answerTtlSeconds: parseTtl(process.env.CACHE_ANSWER_TTL, 24 * 60 * 60),
+  };
+}
+
+function parseTtl(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : fallback;
+}
+
+// Treat "What is Rust?" and "what is rust" as the same query
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[?!.]+$/, '');
+}
+
+export function cacheKey(namespace: string, parts: unknown[]): string {
+  return `${namespace}:${createHash('sha256').update(JSON.stringify(parts)).digest('hex')}`;
+}
+
+// Returns the cached value with its age, or null when missing or expired
+export function readCache<T>(key: string): { value: T; ageSeconds: number } | null {
+  const now = Date.now();
+  const row = getDb()
+    .prepare('SELECT value, created_at, expires_at FROM cache WHERE key = ?')
+    .get(key) as { value: string; created_at: number; expires_at: number } | undefined;
+  if (!row) return null;
+
+  if (row.expires_at <= now) {
+    getDb().prepare('DELETE FROM cache WHERE key = ?').run(key);
+    return null;
+  }
+  return { value: JSON.parse(row.value) as T, ageSeconds: Math.floor((now - row.created_at) / 1000) };
+}
+
+export function writeCache(key: string, value: unknown, ttlSeconds: number) {
+  if (ttlSeconds <= 0) return;
+  const now = Date.now();
+  const db = getDb();
+  db.prepare('DELETE FROM cache WHERE expires_at <= ?').run(now);
+  db.prepare(
+    'INSERT OR REPLACE INTO cache (key, value, created_at, expires_at) VALUES (?, ?, ?, ?)'
+  ).run(key, JSON.stringify(value), now, now + ttlSeconds * 1000);
+}
@@ -0,0 +1,60 @@
+import { Chat, ChatMessage } from '@/types';
+
+// A chat's messages form a tree through parentId. Editing a question or regenerating an
+// answer adds a sibling, and the chat shows one path from a root to its active message
+
+function byTime(a: ChatMessage, b: ChatMessage): number {
+  return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+}
+
+// History saved before branching has no parent pointers; each message follows the one before it
+export function withParents(messages: ChatMessage[]): ChatMessage[] {
+  const sorted = messages.slice().sort(byTime);
+  return sorted.map((message, i) =>
+    message.parentId === undefined ? { ...message, parentId: i > 0 ? sorted[i - 1].id : null } : message
+  );
+}
+
+// Versions of a message: every message with the same parent, oldest first
+export function getSiblings(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  const parentId = message.parentId ?? null;
+  return messages.filter(other => (other.parentId ?? null) === parentId).sort(byTime);
+}
+
+// Messages from the root down to messageId; empty for null or an unknown id
+export function getPathTo(messages: ChatMessage[], messageId: string | null): ChatMessage[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: ChatMessage[] = [];
+  let message = messageId ? byId.get(messageId) : undefined;
+  while (message && !path.includes(message)) {
+    path.unshift(message);
+    message = message.parentId ? byId.get(message.parentId) : undefined;
+  }
+  return path;
+}
+
+// Follow the newest reply down from messageId, so switching to a version shows its latest continuation
+export function getLatestLeaf(messages: ChatMessage[], messageId: string): string {
+  let leafId = messageId;
+  const seen = new Set<string>();
+  while (!seen.has(leafId)) {
+    seen.add(leafId);
+    const children = messages.filter(message => message.parentId === leafId).sort(byTime);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+}
+
+export function getActiveLeafId(chat: Chat): string | null {
+  if (chat.activeMessageId && chat.messages.some(message => message.id === chat.activeMessageId)) {
+    return chat.activeMessageId;
+  }
+  const newest = chat.messages.slice().sort(byTime).pop();
+  return newest ? newest.id : null;
+}
+
+// The conversation on screen, which is also the context sent with follow-up questions
+export function getActivePath(chat: Chat): ChatMessage[] {
+  return getPathTo(chat.messages, getActiveLeafId(chat));
+}
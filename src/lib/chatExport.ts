@@ -0,0 +1,177 @@
+import { Chat, SearchResponse } from '@/types';
+import { getActivePath } from './chatBranches';
+import { parseChat } from './chatPayload';
+
+// Lossless JSON export; bump the version when the layout of exported chats changes
+export const CHAT_EXPORT_FORMAT = 'romnexity-chats';
+export const CHAT_EXPORT_VERSION = 1;
+
+export interface ChatExport {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  chats: Chat[];
+}
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+const CITATION_MARKER = /\[(\d+)\]/g;
+
+// Brackets in a title would end the link text early
+function linkText(text: string): string {
+  return text.replace(/[[\]]/g, '\\$&');
+}
+
+// The answer with [n] markers turned into footnotes that carry the source URLs.
+// Footnote labels get a prefix so several answers can share one document
+export function answerToMarkdown(response: SearchResponse, footnotePrefix = ''): string {
+  const cited = new Set<number>();
+  const answer = response.answer.replace(CITATION_MARKER, (marker, num: string) => {
+    const index = Number(num);
+    if (index < 1 || index > response.sources.length) return marker;
+    cited.add(index);
+    return `[^${footnotePrefix}${index}]`;
+  });
+
+  const footnotes = [...cited]
+    .sort((a, b) => a - b)
+    .map(index => {
+      const source = response.sources[index - 1];
+      return `[^${footnotePrefix}${index}]: [${linkText(source.title)}](${source.url})`;
+    });
+
+  return footnotes.length > 0 ? `${answer.trim()}\n\n${footnotes.join('\n')}` : answer.trim();
+}
+
+export function chatToMarkdown(chat: Chat): string {
+  const sections = getActivePath(chat).map((message, index) => {
+    const sources = message.response.sources
+      .map((source, i) => `${i + 1}. [${linkText(source.title)}](${source.url})`)
+      .join('\n');
+    return `## ${message.query}\n\n${answerToMarkdown(message.response, `${index + 1}-`)}${
+      sources ? `\n\n**Sources**\n\n${sources}` : ''
+    }`;
+  });
+
+  return `# ${chat.title}\n\n_${new Date(chat.createdAt).toLocaleString()}_\n\n${sections.join('\n\n---\n\n')}\n`;
+}
+
+export function chatsToMarkdown(chats: Chat[]): string {
+  return chats.map(chatToMarkdown).join('\n\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only http(s) links are kept as links in the exported file
+function safeHref(url: string): string {
+  return /^https?:\/\//i.test(url) ? escapeHtml(url) : '#';
+}
+
+function chatToHtml(chat: Chat, chatIndex: number): string {
+  const sections = getActivePath(chat).map((message, messageIndex) => {
+    const anchor = (n: number) => `c${chatIndex + 1}-m${messageIndex + 1}-s${n}`;
+    const { answer, sources } = message.response;
+
+    const paragraphs = answer.trim().split(/\n{2,}/).map(paragraph => {
+      const html = escapeHtml(paragraph).replace(CITATION_MARKER, (marker, num: string) => {
+        const index = Number(num);
+        return index >= 1 && index <= sources.length
+          ? `<sup><a href="#${anchor(index)}">[${index}]</a></sup>`
+          : marker;
+      });
+      return `<p>${html}</p>`;
+    });
+
+    const sourceList = sources.length > 0
+      ? `<h3>Sources</h3>\n<ol>${sources.map((source, i) =>
+          `\n  <li id="${anchor(i + 1)}"><a href="${safeHref(source.url)}">${escapeHtml(source.title)}</a></li>`
+        ).join('')}\n</ol>`
+      : '';
+
+    return `<section>\n<h2>${escapeHtml(message.query)}</h2>\n${paragraphs.join('\n')}\n${sourceList}\n</section>`;
+  });
+
+  return `<article>\n<h1>${escapeHtml(chat.title)}</h1>\n<p class="meta">${escapeHtml(new Date(chat.createdAt).toLocaleString())}</p>\n${sections.join('\n')}\n</article>`;
+}
+
+// A standalone page with inline styles, readable offline
+export function chatsToHtml(chats: Chat[], title: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { max-width: 48rem; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.6; color: #1f2937; }
+  h1 { font-size: 1.75rem; margin-bottom: 0; }
+  h2 { font-size: 1.25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; color: #4b5563; }
+  p { white-space: pre-wrap; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin-top: 0.25rem; }
+  sup a { color: #1d4ed8; text-decoration: none; }
+  ol { font-size: 0.875rem; }
+  article + article { border-top: 1px solid #e5e7eb; margin-top: 3rem; }
+</style>
+</head>
+<body>
+${chats.map(chatToHtml).join('\n')}
+</body>
+</html>
+`;
+}
+
+export function chatsToJson(chats: Chat[]): string {
+  const data: ChatExport = {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chats,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export function exportChats(chats: Chat[], format: ExportFormat, title: string): string {
+  switch (format) {
+    case 'markdown':
+      return chatsToMarkdown(chats);
+    case 'html':
+      return chatsToHtml(chats, title);
+    case 'json':
+      return chatsToJson(chats);
+  }
+}
+
+// Check a JSON export and revive its chats; chats that fail validation are counted, not imported
+export function parseChatExport(raw: unknown): { chats: Chat[]; invalid: number } {
+  if (typeof raw !== 'object' || raw === null || (raw as ChatExport).format !== CHAT_EXPORT_FORMAT) {
+    throw new Error('This file is not a Romnexity chat export');
+  }
+
+  const { version, chats } = raw as ChatExport;
+  if (typeof version !== 'number' || version > CHAT_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${version}; update Romnexity to import it`);
+  }
+  if (!Array.isArray(chats)) {
+    throw new Error('The export does not contain a list of chats');
+  }
+
+  const parsed = chats.map(parseChat);
+  return {
+    chats: parsed.filter((chat): chat is Chat => chat !== null),
+    invalid: parsed.filter(chat => chat === null).length,
+  };
+}
@@ -0,0 +1,93 @@
+import { Chat, ChatMessage, Collection, SearchResponse } from '@/types';
+import { withParents } from './chatBranches';
+import { isSearchFocus } from './focus';
+
+// Request bodies (and localStorage imports) carry dates as ISO strings; these
+// helpers check the shape and revive them into Chat / ChatMessage / Collection values
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value === undefined) return new Date();
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isSearchResponse(value: unknown): value is SearchResponse {
+  return isRecord(value)
+    && typeof value.query === 'string'
+    && typeof value.answer === 'string'
+    && Array.isArray(value.sources)
+    && Array.isArray(value.citations);
+}
+
+export function parseMessage(raw: unknown): ChatMessage | null {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.id !== 'string' || !raw.id) return null;
+  if (typeof raw.query !== 'string') return null;
+  if (!isSearchResponse(raw.response)) return null;
+  if (raw.focus !== undefined && !isSearchFocus(raw.focus)) return null;
+  if (raw.parentId !== undefined && raw.parentId !== null && typeof raw.parentId !== 'string') return null;
+
+  const timestamp = parseDate(raw.timestamp);
+  if (!timestamp) return null;
+
+  return { id: raw.id, query: raw.query, response: raw.response, timestamp, focus: raw.focus, parentId: raw.parentId };
+}
+
+export function parseChat(raw: unknown): Chat | null {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.id !== 'string' || !raw.id) return null;
+  if (typeof raw.title !== 'string') return null;
+  if (raw.model !== undefined && typeof raw.model !== 'string') return null;
+  if (raw.pinned !== undefined && typeof raw.pinned !== 'boolean') return null;
+  if (raw.titleEdited !== undefined && typeof raw.titleEdited !== 'boolean') return null;
+  if (raw.collectionId !== undefined && typeof raw.collectionId !== 'string') return null;
+  if (raw.activeMessageId !== undefined && typeof raw.activeMessageId !== 'string') return null;
+
+  const rawMessages = raw.messages ?? [];
+  if (!Array.isArray(rawMessages)) return null;
+  const messages = rawMessages.map(parseMessage);
+  if (messages.some(message => message === null)) return null;
+
+  const createdAt = parseDate(raw.createdAt);
+  const updatedAt = parseDate(raw.updatedAt);
+  if (!createdAt || !updatedAt) return null;
+
+  return {
+    id: raw.id,
+    title: raw.title,
+    messages: withParents(messages as ChatMessage[]),
+    createdAt,
+    updatedAt,
+    model: raw.model as string | undefined,
+    pinned: raw.pinned as boolean | undefined,
+    titleEdited: raw.titleEdited as boolean | undefined,
+    collectionId: raw.collectionId as string | undefined,
+    activeMessageId: raw.activeMessageId as string | undefined,
+  };
+}
+
+export function parseCollection(raw: unknown): Collection | null {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.id !== 'string' || !raw.id) return null;
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  if (raw.instructions !== undefined && typeof raw.instructions !== 'string') return null;
+  if (raw.defaultFocus !== undefined && !isSearchFocus(raw.defaultFocus)) return null;
+
+  const createdAt = parseDate(raw.createdAt);
+  const updatedAt = parseDate(raw.updatedAt);
+  if (!createdAt || !updatedAt) return null;
+
+  return {
+    id: raw.id,
+    name: raw.name.trim(),
+    instructions: raw.instructions,
+    defaultFocus: raw.defaultFocus,
+    createdAt,
+    updatedAt,
+  };
+}
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Chat, ChatMessage } from '@/types';
+import { createUser } from './auth/users';
+import { appendMessage, createChat, getChat } from './chatStore';
+
+process.env.DATABASE_PATH = ':memory:';
+
+function message(id: string): ChatMessage {
+  return { id, query: 'q', response: { query: 'q', answer: 'a', sources: [], citations: [] }, timestamp: new Date() };
+}
+
+function chat(id: string, messages: ChatMessage[] = []): Chat {
+  return { id, title: id, messages, createdAt: new Date(), updatedAt: new Date() };
+}
+
+test('appending makes the message the end of the active branch', () => {
+  const user = createUser({ email: 'append@example.com', passwordHash: null })!;
+  createChat(user.id, chat('chat-append'));
+  assert.equal(typeof appendMessage(user.id, 'chat-append', message('m-append')), 'object');
+  assert.equal(getChat(user.id, 'chat-append')?.activeMessageId, 'm-append');
+});
+
+test('re-sending a message the chat has returns it and keeps the active branch', () => {
+  const user = createUser({ email: 'retry@example.com', passwordHash: null })!;
+  createChat(user.id, chat('chat-retry'));
+  appendMessage(user.id, 'chat-retry', message('m-first'));
+  appendMessage(user.id, 'chat-retry', message('m-second'));
+
+  const again = appendMessage(user.id, 'chat-retry', { ...message('m-first'), query: 'changed' });
+  assert.equal(again !== null && again !== 'conflict' && again.query, 'q');
+  assert.equal(getChat(user.id, 'chat-retry')?.activeMessageId, 'm-second');
+});
+
+test("a message id used by another user's chat is a conflict and changes nothing", () => {
+  const owner = createUser({ email: 'owner@example.com', passwordHash: null })!;
+  const other = createUser({ email: 'other@example.com', passwordHash: null })!;
+  createChat(owner.id, chat('chat-owner', [message('m-taken')]));
+  createChat(other.id, chat('chat-other'));
+
+  assert.equal(appendMessage(other.id, 'chat-other', message('m-taken')), 'conflict');
+  const unchanged = getChat(other.id, 'chat-other');
+  assert.equal(unchanged?.messages.length, 0);
+  assert.equal(unchanged?.activeMessageId, undefined);
+});
+
+test('a chat whose messages use ids from another chat is not created', () => {
+  const user = createUser({ email: 'import@example.com', passwordHash: null })!;
+  createChat(user.id, chat('chat-source', [message('m-imported')]));
+  assert.equal(createChat(user.id, chat('chat-copy', [message('m-imported')])), null);
+  assert.equal(getChat(user.id, 'chat-copy'), null);
+  // Re-importing the same chat is still a no-op
+  assert.equal(createChat(user.id, chat('chat-source', [message('m-imported')]))?.messages.length, 1);
+});
+
+test('appending to a missing chat returns null', () => {
+  const user = createUser({ email: 'missing@example.com', passwordHash: null })!;
+  assert.equal(appendMessage(user.id, 'no-such-chat', message('m-missing')), null);
+});
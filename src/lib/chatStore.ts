@@ -0,0 +1,199 @@
+import { Chat, ChatMessage, SearchFocus, SearchResponse } from '@/types';
+import { getActiveLeafId } from './chatBranches';
+import { getDb } from './db';
+
+interface ChatRow {
+  id: string;
+  title: string;
+  model: string | null;
+  created_at: string;
+  updated_at: string;
+  pinned: number;
+  title_edited: number;
+  collection_id: string | null;
+  active_message_id: string | null;
+}
+
+interface MessageRow {
+  id: string;
+  chat_id: string;
+  query: string;
+  response: string;
+  timestamp: string;
+  focus: string | null;
+  parent_id: string | null;
+}
+
+function toMessage(row: MessageRow): ChatMessage {
+  return {
+    id: row.id,
+    query: row.query,
+    response: JSON.parse(row.response) as SearchResponse,
+    timestamp: new Date(row.timestamp),
+    focus: (row.focus as SearchFocus | null) ?? undefined,
+    parentId: row.parent_id,
+  };
+}
+
+function toChat(row: ChatRow, messages: ChatMessage[]): Chat {
+  return {
+    id: row.id,
+    title: row.title,
+    messages,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    model: row.model ?? undefined,
+    pinned: row.pinned === 1,
+    titleEdited: row.title_edited === 1,
+    collectionId: row.collection_id ?? undefined,
+    activeMessageId: row.active_message_id ?? undefined,
+  };
+}
+
+// The user's chats, most recently updated first, matching the sidebar order
+export function listChats(userId: string): Chat[] {
+  const db = getDb();
+  const chatRows = db.prepare('SELECT * FROM chats WHERE user_id = ? ORDER BY updated_at DESC').all(userId) as ChatRow[];
+  const messageRows = db.prepare(
+    `SELECT m.* FROM messages m JOIN chats c ON c.id = m.chat_id
+     WHERE c.user_id = ? ORDER BY m.timestamp, m.rowid`
+  ).all(userId) as MessageRow[];
+
+  const messagesByChat = new Map<string, ChatMessage[]>();
+  for (const row of messageRows) {
+    const messages = messagesByChat.get(row.chat_id) ?? [];
+    messages.push(toMessage(row));
+    messagesByChat.set(row.chat_id, messages);
+  }
+
+  return chatRows.map(row => toChat(row, messagesByChat.get(row.id) ?? []));
+}
+
+// Chats of other users are treated as missing
+export function getChat(userId: string, id: string): Chat | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM chats WHERE id = ? AND user_id = ?').get(id, userId) as ChatRow | undefined;
+  if (!row) return null;
+
+  const messageRows = db
+    .prepare('SELECT * FROM messages WHERE chat_id = ? ORDER BY timestamp, rowid')
+    .all(id) as MessageRow[];
+  return toChat(row, messageRows.map(toMessage));
+}
+
+// Chats may point at a collection that is not on this server (e.g. from an import); they are kept ungrouped
+function existingCollectionId(userId: string, collectionId?: string | null): string | null {
+  if (!collectionId) return null;
+  const row = getDb().prepare('SELECT id FROM collections WHERE id = ? AND user_id = ?').get(collectionId, userId);
+  return row ? collectionId : null;
+}
+
+// Inserting an existing id is a no-op, so clients can retry and re-import safely.
+// Returns null if the id belongs to another user's chat, or a message id to another chat
+export function createChat(userId: string, chat: Chat): Chat | null {
+  const db = getDb();
+  const owner = db.prepare('SELECT user_id FROM chats WHERE id = ?').get(chat.id) as { user_id: string | null } | undefined;
+  if (owner && owner.user_id !== userId) return null;
+  const takenElsewhere = db.prepare('SELECT 1 FROM messages WHERE id = ? AND chat_id != ?');
+  if (chat.messages.some(message => takenElsewhere.get(message.id, chat.id))) return null;
+
+  db.transaction(() => {
+    db.prepare(
+      `INSERT OR IGNORE INTO chats (id, user_id, title, model, created_at, updated_at, pinned, title_edited, collection_id, active_message_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      chat.id,
+      userId,
+      chat.title,
+      chat.model ?? null,
+      chat.createdAt.toISOString(),
+      chat.updatedAt.toISOString(),
+      chat.pinned ? 1 : 0,
+      chat.titleEdited ? 1 : 0,
+      existingCollectionId(userId, chat.collectionId),
+      chat.activeMessageId ?? null
+    );
+
+    for (const message of chat.messages) {
+      insertMessage(chat.id, message);
+    }
+  })();
+
+  return getChat(userId, chat.id);
+}
+
+export interface ChatChanges {
+  title?: string;
+  titleEdited?: boolean; // set for manual renames
+  model?: string;
+  pinned?: boolean;
+  collectionId?: string | null; // null removes the chat from its collection
+  activeMessageId?: string; // switches the branch on screen; ignored unless it is one of the chat's messages
+}
+
+// A generated title (titleEdited not set) never replaces one the user typed
+export function updateChat(userId: string, id: string, changes: ChatChanges): Chat | null {
+  const db = getDb();
+  const existing = getChat(userId, id);
+  if (!existing) return null;
+
+  const keepTitle = existing.titleEdited && !changes.titleEdited;
+  db.prepare(
+    `UPDATE chats SET title = ?, title_edited = ?, model = ?, pinned = ?, collection_id = ?, active_message_id = ? WHERE id = ?`
+  ).run(
+    keepTitle ? existing.title : changes.title ?? existing.title,
+    changes.titleEdited || existing.titleEdited ? 1 : 0,
+    changes.model ?? existing.model ?? null,
+    (changes.pinned ?? existing.pinned) ? 1 : 0,
+    changes.collectionId === undefined ? existing.collectionId ?? null : existingCollectionId(userId, changes.collectionId),
+    existing.messages.some(message => message.id === changes.activeMessageId)
+      ? changes.activeMessageId
+      : existing.activeMessageId ?? null,
+    id
+  );
+  return getChat(userId, id);
+}
+
+export function deleteChat(userId: string, id: string): boolean {
+  return getDb().prepare('DELETE FROM chats WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+}
+
+export function deleteAllChats(userId: string): void {
+  getDb().prepare('DELETE FROM chats WHERE user_id = ?').run(userId);
+}
+
+// False when the id is already taken, by this chat or another
+function insertMessage(chatId: string, message: ChatMessage): boolean {
+  return getDb().prepare(
+    `INSERT OR IGNORE INTO messages (id, chat_id, query, response, timestamp, focus, parent_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    message.id,
+    chatId,
+    message.query,
+    JSON.stringify(message.response),
+    message.timestamp.toISOString(),
+    message.focus ?? null,
+    message.parentId ?? null
+  ).changes > 0;
+}
+
+// Add a message and make it the end of the active branch; without a parentId it continues
+// the active branch. Returns null if the chat does not exist. Re-sending a message the chat
+// already has returns it unchanged; 'conflict' means another chat uses the id
+export function appendMessage(userId: string, chatId: string, message: ChatMessage): ChatMessage | 'conflict' | null {
+  const db = getDb();
+  const chat = getChat(userId, chatId);
+  if (!chat) return null;
+
+  const saved = { ...message, parentId: message.parentId === undefined ? getActiveLeafId(chat) : message.parentId };
+  const inserted = db.transaction(() => {
+    if (!insertMessage(chatId, saved)) return false;
+    db.prepare('UPDATE chats SET updated_at = ?, active_message_id = ? WHERE id = ?')
+      .run(saved.timestamp.toISOString(), saved.id, chatId);
+    return true;
+  })();
+
+  if (inserted) return saved;
+  return chat.messages.find(existing => existing.id === saved.id) ?? 'conflict';
+}
@@ -0,0 +1,30 @@
+import { Citation, SearchResult } from '@/types';
+
+// Extract unique [n] citation markers from an answer and map them to sources
+export function extractCitations(answer: string, sources: SearchResult[]): Citation[] {
+  const citationRegex = /\[(\d+)\]/g;
+  const citationMatches = [...answer.matchAll(citationRegex)];
+
+  return citationMatches
+    .map(match => parseInt(match[1]))
+    .filter((num, index, arr) => arr.indexOf(num) === index) // Remove duplicates
+    .filter(num => num > 0 && num <= sources.length) // Valid citation numbers
+    .map(num => ({
+      index: num,
+      url: sources[num - 1].url,
+      title: sources[num - 1].title,
+      document: sources[num - 1].document,
+      knowledge: sources[num - 1].knowledge,
+    }));
+}
+
+// Split an answer into sentences whose concatenation is the original text. Citation
+// markers written after the full stop ("... end. [2]") stay with their sentence.
+export function splitSentences(text: string): string[] {
+  return text.match(/[\s\S]+?(?:[.!?]+(?:\s*\[\d+\])*(?=\s|$)|\n|$)\s*/g) ?? [];
+}
+
+// Citation numbers referenced in a piece of text, in order of appearance
+export function citationNumbers(text: string): number[] {
+  return [...new Set([...text.matchAll(/\[(\d+)\]/g)].map(match => parseInt(match[1])))];
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { test } from 'node:test';
+import { classifyError } from './classifyError';
+import { createOpenAICompatibleProvider } from './llm';
+
+test('timeouts are reported for the stage that was running', () => {
+  const timeout = Object.assign(new Error('Request timed out'), { name: 'TimeoutError' });
+  assert.equal(classifyError(timeout, 'search'), 'search_timeout');
+  assert.equal(classifyError(timeout, 'llm'), 'llm_timeout');
+});
+
+test('provider HTTP errors map by status', () => {
+  assert.equal(classifyError({ name: 'HTTPError', response: { status: 401 } }, 'search'), 'search_auth_failed');
+  assert.equal(classifyError(new Error('HTTP 503'), 'search'), 'search_unavailable');
+  assert.equal(classifyError(new Error('HTTP 400'), 'search'), 'search_failed');
+});
+
+test('unreachable hosts are unavailable, not failed', () => {
+  assert.equal(classifyError(Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }), 'search'), 'search_unavailable');
+  assert.equal(classifyError(new TypeError('fetch failed'), 'llm'), 'llm_unavailable');
+});
+
+test('a model server that never answers fails with llm_timeout once the client timeout passes', async () => {
+  const server = createServer(() => {}).listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  const provider = createOpenAICompatibleProvider({ baseURL: `http://127.0.0.1:${port}/v1`, timeoutMs: 200, maxRetries: 0 });
+
+  try {
+    const error = await provider.complete({ model: 'm', messages: [{ role: 'user', content: 'hi' }], maxTokens: 1, temperature: 0 })
+      .then(() => null, (thrown: unknown) => thrown);
+    assert.equal(classifyError(error, 'llm'), 'llm_timeout');
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+});
@@ -0,0 +1,52 @@
+import OpenAI from 'openai';
+import { ApiError, ApiErrorCode } from '@/types';
+import { apiError } from './apiErrors';
+
+interface ErrorShape {
+  name?: string;
+  code?: string;
+  message?: string;
+  response?: { status?: number }; // ky's HTTPError, thrown by the Tavily SDK
+}
+
+const NETWORK_CODES = new Set(['ENOTFOUND', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'EHOSTUNREACH']);
+
+function classifyLlmError(error: InstanceType<typeof OpenAI.APIError>): ApiErrorCode {
+  if (error instanceof OpenAI.APIConnectionTimeoutError) return 'llm_timeout';
+  if (error instanceof OpenAI.APIConnectionError) return 'llm_unavailable';
+  if (error.code === 'insufficient_quota') return 'llm_quota_exceeded';
+  if (error.status === 401 || error.status === 403 || error.code === 'invalid_api_key') return 'llm_auth_failed';
+  if (error.status === 429) return 'llm_rate_limited';
+  if (error.status !== undefined && error.status >= 500) return 'llm_unavailable';
+  return 'llm_failed';
+}
+
+// Give an error thrown while searching or answering its code. stage is where the pipeline
+// was when it failed; errors from the language model client are always 'llm'
+export function classifyError(error: unknown, stage: 'search' | 'llm'): ApiErrorCode {
+  if (error instanceof OpenAI.APIError) return classifyLlmError(error);
+
+  const { name, code, message = '', response } = (error ?? {}) as ErrorShape;
+  if (code === 'insufficient_quota') return 'llm_quota_exceeded';
+  if (code === 'invalid_api_key') return 'llm_auth_failed';
+  if (name === 'TimeoutError' || name === 'AbortError' || code === 'ETIMEDOUT' || code === 'ECONNABORTED') {
+    return stage === 'search' ? 'search_timeout' : 'llm_timeout';
+  }
+  if ((code && NETWORK_CODES.has(code)) || (error instanceof TypeError && message === 'fetch failed')) {
+    return stage === 'search' ? 'search_unavailable' : 'llm_unavailable';
+  }
+
+  const status = response?.status ?? Number(message.match(/\bHTTP (\d{3})\b/)?.[1]);
+  if (stage === 'search' && (status === 401 || status === 403)) return 'search_auth_failed';
+  if (stage === 'search' && status >= 500) return 'search_unavailable';
+  return stage === 'search' ? 'search_failed' : 'llm_failed';
+}
+
+// The ApiError for a failure in the pipeline, logged with its correlation id
+export function describeFailure(error: unknown, stage: 'search' | 'llm', correlationId: string): ApiError {
+  const code = classifyError(error, stage);
+  console.error(`Request failed (${code}, correlation id ${correlationId}):`, error);
+  return apiError(code, correlationId, {
+    details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined,
+  });
+}
@@ -0,0 +1,81 @@
+import { Collection, SearchFocus } from '@/types';
+import { getDb } from './db';
+
+interface CollectionRow {
+  id: string;
+  name: string;
+  instructions: string | null;
+  default_focus: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toCollection(row: CollectionRow): Collection {
+  return {
+    id: row.id,
+    name: row.name,
+    instructions: row.instructions ?? undefined,
+    defaultFocus: (row.default_focus as SearchFocus | null) ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export function listCollections(userId: string): Collection[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM collections WHERE user_id = ? ORDER BY name COLLATE NOCASE')
+    .all(userId) as CollectionRow[];
+  return rows.map(toCollection);
+}
+
+export function getCollection(userId: string, id: string): Collection | null {
+  const row = getDb()
+    .prepare('SELECT * FROM collections WHERE id = ? AND user_id = ?')
+    .get(id, userId) as CollectionRow | undefined;
+  return row ? toCollection(row) : null;
+}
+
+// Like chats, collections keep client-generated ids and creating an existing id is a no-op;
+// returns null if the id belongs to another user's collection
+export function createCollection(userId: string, collection: Collection): Collection | null {
+  getDb().prepare(
+    `INSERT OR IGNORE INTO collections (id, user_id, name, instructions, default_focus, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    collection.id,
+    userId,
+    collection.name,
+    collection.instructions ?? null,
+    collection.defaultFocus ?? null,
+    collection.createdAt.toISOString(),
+    collection.updatedAt.toISOString()
+  );
+  return getCollection(userId, collection.id);
+}
+
+export interface CollectionChanges {
+  name?: string;
+  instructions?: string | null; // null clears
+  defaultFocus?: SearchFocus | null;
+}
+
+export function updateCollection(userId: string, id: string, changes: CollectionChanges): Collection | null {
+  const existing = getCollection(userId, id);
+  if (!existing) return null;
+
+  getDb().prepare(
+    'UPDATE collections SET name = ?, instructions = ?, default_focus = ?, updated_at = ? WHERE id = ?'
+  ).run(
+    changes.name ?? existing.name,
+    changes.instructions === undefined ? existing.instructions ?? null : changes.instructions,
+    changes.defaultFocus === undefined ? existing.defaultFocus ?? null : changes.defaultFocus,
+    new Date().toISOString(),
+    id
+  );
+  return getCollection(userId, id);
+}
+
+// Chats in the collection stay, ungrouped (ON DELETE SET NULL)
+export function deleteCollection(userId: string, id: string): boolean {
+  return getDb().prepare('DELETE FROM collections WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+}
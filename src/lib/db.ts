@@ -0,0 +1,201 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+// Schema changes are appended here; PRAGMA user_version records how many have run
+const MIGRATIONS: string[] = [
+  `CREATE TABLE chats (
+     id TEXT PRIMARY KEY,
+     title TEXT NOT NULL,
+     model TEXT,
+     created_at TEXT NOT NULL,
+     updated_at TEXT NOT NULL
+   );
+   CREATE TABLE messages (
+     id TEXT PRIMARY KEY,
+     chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+     query TEXT NOT NULL,
+     response TEXT NOT NULL,
+     timestamp TEXT NOT NULL
+   );
+   CREATE INDEX messages_chat_id ON messages(chat_id, timestamp);`,
+  `ALTER TABLE messages ADD COLUMN focus TEXT;`,
+  `CREATE TABLE cache (
+     key TEXT PRIMARY KEY,
+     value TEXT NOT NULL,
+     created_at INTEGER NOT NULL,
+     expires_at INTEGER NOT NULL
+   );
+   CREATE INDEX cache_expires_at ON cache(expires_at);`,
+  `CREATE TABLE usage (
+     client TEXT NOT NULL,
+     day TEXT NOT NULL,
+     count INTEGER NOT NULL,
+     PRIMARY KEY (client, day)
+   );`,
+  `CREATE TABLE shares (
+     id TEXT PRIMARY KEY,
+     kind TEXT NOT NULL,
+     title TEXT NOT NULL,
+     messages TEXT NOT NULL,
+     token_hash TEXT NOT NULL,
+     created_at TEXT NOT NULL,
+     revoked_at TEXT
+   );`,
+  // Full-text index over each message's query, answer and source titles, kept in step by triggers
+  `CREATE VIRTUAL TABLE messages_fts USING fts5(query, answer, sources, tokenize = 'porter unicode61');
+   CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+     INSERT INTO messages_fts (rowid, query, answer, sources)
+     VALUES (
+       new.rowid,
+       new.query,
+       json_extract(new.response, '$.answer'),
+       (SELECT group_concat(json_extract(value, '$.title'), ' · ') FROM json_each(new.response, '$.sources'))
+     );
+   END;
+   CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+     DELETE FROM messages_fts WHERE rowid = old.rowid;
+   END;
+   INSERT INTO messages_fts (rowid, query, answer, sources)
+   SELECT
+     rowid,
+     query,
+     json_extract(response, '$.answer'),
+     (SELECT group_concat(json_extract(value, '$.title'), ' · ') FROM json_each(response, '$.sources'))
+   FROM messages;`,
+  `CREATE TABLE collections (
+     id TEXT PRIMARY KEY,
+     name TEXT NOT NULL,
+     instructions TEXT,
+     default_focus TEXT,
+     created_at TEXT NOT NULL,
+     updated_at TEXT NOT NULL
+   );
+   ALTER TABLE chats ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE chats ADD COLUMN title_edited INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE chats ADD COLUMN collection_id TEXT REFERENCES collections(id) ON DELETE SET NULL;`,
+  // Branching history: existing messages each follow the one before them in their chat
+  `ALTER TABLE messages ADD COLUMN parent_id TEXT;
+   ALTER TABLE chats ADD COLUMN active_message_id TEXT;
+   UPDATE messages SET parent_id = (
+     SELECT prev.id FROM messages prev
+     WHERE prev.chat_id = messages.chat_id
+       AND (prev.timestamp < messages.timestamp OR (prev.timestamp = messages.timestamp AND prev.rowid < messages.rowid))
+     ORDER BY prev.timestamp DESC, prev.rowid DESC
+     LIMIT 1
+   );`,
+  // Uploaded documents keep the original file so citations can open it; their text is
+  // chunked into a full-text index, cleared by trigger when a document or its chat goes away
+  `CREATE TABLE documents (
+     id TEXT PRIMARY KEY,
+     chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+     name TEXT NOT NULL,
+     kind TEXT NOT NULL,
+     mime_type TEXT NOT NULL,
+     size INTEGER NOT NULL,
+     page_count INTEGER,
+     chunk_count INTEGER NOT NULL,
+     data BLOB NOT NULL,
+     created_at TEXT NOT NULL
+   );
+   CREATE INDEX documents_chat_id ON documents(chat_id);
+   CREATE VIRTUAL TABLE document_chunks USING fts5(
+     text, document_id UNINDEXED, page UNINDEXED, position UNINDEXED,
+     tokenize = 'porter unicode61'
+   );
+   CREATE TRIGGER documents_delete AFTER DELETE ON documents BEGIN
+     DELETE FROM document_chunks WHERE document_id = old.id;
+   END;`,
+  // Knowledge base: passages of indexed files and sitemap pages, searched by keywords
+  // (FTS5) and by embedding. version and content_hash let re-indexing skip unchanged items
+  `CREATE TABLE knowledge_documents (
+     id TEXT PRIMARY KEY,
+     source TEXT NOT NULL,
+     location TEXT NOT NULL,
+     title TEXT NOT NULL,
+     kind TEXT NOT NULL,
+     version TEXT NOT NULL,
+     content_hash TEXT NOT NULL,
+     embedder TEXT NOT NULL,
+     chunk_count INTEGER NOT NULL,
+     indexed_at TEXT NOT NULL,
+     UNIQUE (source, location)
+   );
+   CREATE VIRTUAL TABLE knowledge_chunks USING fts5(
+     text, title, document_id UNINDEXED, page UNINDEXED, position UNINDEXED,
+     tokenize = 'porter unicode61'
+   );
+   CREATE TABLE knowledge_vectors (
+     chunk_id INTEGER PRIMARY KEY,
+     document_id TEXT NOT NULL REFERENCES knowledge_documents(id) ON DELETE CASCADE,
+     vector BLOB NOT NULL
+   );
+   CREATE INDEX knowledge_vectors_document_id ON knowledge_vectors(document_id);
+   CREATE TRIGGER knowledge_documents_delete AFTER DELETE ON knowledge_documents BEGIN
+     DELETE FROM knowledge_chunks WHERE document_id = old.id;
+   END;`,
+  // Accounts: chats and collections belong to a user; sessions store only the token's hash.
+  // password_hash is null for accounts that sign in through an identity provider
+  `CREATE TABLE users (
+     id TEXT PRIMARY KEY,
+     email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+     name TEXT,
+     password_hash TEXT,
+     settings TEXT NOT NULL DEFAULT '{}',
+     created_at TEXT NOT NULL
+   );
+   CREATE TABLE sessions (
+     token_hash TEXT PRIMARY KEY,
+     user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+     created_at TEXT NOT NULL,
+     expires_at TEXT NOT NULL
+   );
+   CREATE INDEX sessions_user_id ON sessions(user_id);
+   ALTER TABLE chats ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+   ALTER TABLE collections ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+   ALTER TABLE shares ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+   CREATE INDEX chats_user_id ON chats(user_id, updated_at);
+   CREATE INDEX collections_user_id ON collections(user_id);`,
+  // Keys for the public API, issued and revoked by their owner. Only a hash of the key is
+  // stored; prefix is kept so the owner can tell keys apart
+  `CREATE TABLE api_keys (
+     id TEXT PRIMARY KEY,
+     user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+     name TEXT NOT NULL,
+     prefix TEXT NOT NULL,
+     key_hash TEXT NOT NULL UNIQUE,
+     created_at TEXT NOT NULL,
+     last_used_at TEXT,
+     revoked_at TEXT
+   );
+   CREATE INDEX api_keys_user_id ON api_keys(user_id);`,
+];
+
+let db: Database.Database | null = null;
+
+function migrate(database: Database.Database) {
+  const version = database.pragma('user_version', { simple: true }) as number;
+
+  MIGRATIONS.slice(version).forEach((sql, offset) => {
+    database.transaction(() => {
+      database.exec(sql);
+      database.pragma(`user_version = ${version + offset + 1}`);
+    })();
+  });
+}
+
+// Single shared connection; DATABASE_PATH defaults to data/romnexity.db
+export function getDb(): Database.Database {
+  if (!db) {
+    const path = process.env.DATABASE_PATH || 'data/romnexity.db';
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    db = new Database(path);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+  }
+  return db;
+}
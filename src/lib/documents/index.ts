@@ -0,0 +1,159 @@
+import { randomBytes } from 'crypto';
+import { ChatDocument, DocumentKind, SearchResult } from '@/types';
+import { getDb } from '@/lib/db';
+import { splitPassages, toMatchExpression } from '@/lib/retrieval/passages';
+import { DocumentPage } from './parse';
+
+export { detectDocumentKind, extractDocumentText, DOCUMENT_MIME_TYPES } from './parse';
+export type { DocumentPage } from './parse';
+
+export interface DocumentConfig {
+  maxBytes: number;
+  maxResults: number; // passages added to the sources of each answer
+}
+
+export function getDocumentConfig(): DocumentConfig {
+  return {
+    maxBytes: Number(process.env.DOCUMENT_MAX_BYTES) || 10_000_000,
+    maxResults: Number(process.env.DOCUMENT_MAX_RESULTS) || 4,
+  };
+}
+
+interface DocumentRow {
+  id: string;
+  chat_id: string;
+  name: string;
+  kind: DocumentKind;
+  mime_type: string;
+  size: number;
+  page_count: number | null;
+  chunk_count: number;
+  created_at: string;
+}
+
+interface ChunkHitRow {
+  text: string;
+  document_id: string;
+  page: number | null;
+  name: string;
+  rank: number;
+}
+
+const DOCUMENT_COLUMNS = 'id, chat_id, name, kind, mime_type, size, page_count, chunk_count, created_at';
+
+function toDocument(row: DocumentRow): ChatDocument {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    name: row.name,
+    kind: row.kind,
+    mimeType: row.mime_type,
+    size: row.size,
+    pageCount: row.page_count ?? undefined,
+    chunkCount: row.chunk_count,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Links open the stored file; PDF viewers jump to the page given in the fragment
+export function documentUrl(documentId: string, page?: number): string {
+  return `/api/documents/${documentId}/file${page ? `#page=${page}` : ''}`;
+}
+
+export function listDocuments(chatId: string): ChatDocument[] {
+  const rows = getDb()
+    .prepare(`SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE chat_id = ? ORDER BY created_at`)
+    .all(chatId) as DocumentRow[];
+  return rows.map(toDocument);
+}
+
+// Documents belong to the user who owns their chat
+export function getDocumentFile(userId: string, id: string): { name: string; kind: DocumentKind; data: Buffer } | null {
+  const row = getDb().prepare(
+    `SELECT d.name, d.kind, d.data FROM documents d JOIN chats c ON c.id = d.chat_id
+     WHERE d.id = ? AND c.user_id = ?`
+  ).get(id, userId) as
+    { name: string; kind: DocumentKind; data: Buffer } | undefined;
+  return row ?? null;
+}
+
+// Store the file and index its text in overlapping passages; returns null if the chat does not exist
+export function addDocument(
+  chatId: string,
+  file: { name: string; kind: DocumentKind; mimeType: string; data: Uint8Array },
+  pages: DocumentPage[]
+): ChatDocument | null {
+  const db = getDb();
+  if (!db.prepare('SELECT id FROM chats WHERE id = ?').get(chatId)) return null;
+
+  const id = `doc_${randomBytes(9).toString('base64url')}`;
+  const chunks = pages.flatMap(page => splitPassages(page.text).map(text => ({ page: page.page ?? null, text })));
+  const pageCount = pages.some(page => page.page !== undefined) ? pages.length : null;
+
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO documents (id, chat_id, name, kind, mime_type, size, page_count, chunk_count, data, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      chatId,
+      file.name,
+      file.kind,
+      file.mimeType,
+      file.data.byteLength,
+      pageCount,
+      chunks.length,
+      Buffer.from(file.data),
+      new Date().toISOString()
+    );
+
+    const insertChunk = db.prepare('INSERT INTO document_chunks (text, document_id, page, position) VALUES (?, ?, ?, ?)');
+    chunks.forEach((chunk, position) => insertChunk.run(chunk.text, id, chunk.page, position));
+  })();
+
+  const row = db.prepare(`SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE id = ?`).get(id) as DocumentRow;
+  return toDocument(row);
+}
+
+export function deleteDocument(userId: string, id: string): boolean {
+  return getDb().prepare(
+    'DELETE FROM documents WHERE id = ? AND chat_id IN (SELECT id FROM chats WHERE user_id = ?)'
+  ).run(id, userId).changes > 0;
+}
+
+// The chat's best-matching passages as search results, one per document page.
+// Passages from the same page are joined so each page is cited once
+export function searchDocuments(chatId: string, query: string, limit = getDocumentConfig().maxResults): SearchResult[] {
+  const match = toMatchExpression(query);
+  if (!match) return [];
+
+  const rows = getDb().prepare(
+    `SELECT c.text, c.document_id, c.page, d.name, bm25(document_chunks) AS rank
+     FROM document_chunks c
+     JOIN documents d ON d.id = c.document_id
+     WHERE document_chunks MATCH ? AND d.chat_id = ?
+     ORDER BY rank
+     LIMIT ?`
+  ).all(match, chatId, limit * 3) as ChunkHitRow[];
+
+  const byPage = new Map<string, SearchResult>();
+  for (const row of rows) {
+    const key = `${row.document_id}:${row.page ?? ''}`;
+    const existing = byPage.get(key);
+    if (existing) {
+      existing.content += `\n...\n${row.text}`;
+      continue;
+    }
+    if (byPage.size >= limit) continue;
+
+    const page = row.page ?? undefined;
+    byPage.set(key, {
+      title: page ? `${row.name}, page ${page}` : row.name,
+      url: documentUrl(row.document_id, page),
+      content: row.text,
+      provider: 'documents',
+      document: { documentId: row.document_id, name: row.name, page },
+    });
+  }
+  return [...byPage.values()];
+}
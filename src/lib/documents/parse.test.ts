@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { detectDocumentKind, extractDocumentText } from './parse';
+
+test('the extension decides the kind before the MIME type', () => {
+  assert.equal(detectDocumentKind('Notes.MD', 'application/octet-stream'), 'markdown');
+  assert.equal(detectDocumentKind('paper.pdf', 'text/plain'), 'pdf');
+  assert.equal(detectDocumentKind('report', 'application/pdf; charset=binary'), 'pdf');
+});
+
+test('unsupported files have no kind', () => {
+  assert.equal(detectDocumentKind('image.png', 'image/png'), null);
+  assert.equal(detectDocumentKind('', ''), null);
+});
+
+test('names inherited from Object.prototype are unsupported, not functions', () => {
+  for (const name of ['x.constructor', 'x.toString', 'x.__proto__', 'x.hasOwnProperty']) {
+    assert.equal(detectDocumentKind(name, ''), null, name);
+  }
+  assert.equal(detectDocumentKind('x', 'constructor'), null);
+});
+
+test('text documents are a single page', async () => {
+  assert.deepEqual(await extractDocumentText('text', new TextEncoder().encode('hello')), [{ text: 'hello' }]);
+});
@@ -0,0 +1,59 @@
+import mammoth from 'mammoth';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { DocumentKind } from '@/types';
+
+export interface DocumentPage {
+  page?: number; // 1-based; only PDFs have pages
+  text: string;
+}
+
+// Maps rather than objects, so names like "constructor" do not find inherited properties
+const EXTENSIONS = new Map<string, DocumentKind>([
+  ['pdf', 'pdf'],
+  ['docx', 'docx'],
+  ['md', 'markdown'],
+  ['markdown', 'markdown'],
+  ['txt', 'text'],
+  ['text', 'text'],
+]);
+
+const MIME_TYPES = new Map<string, DocumentKind>([
+  ['application/pdf', 'pdf'],
+  ['application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'docx'],
+  ['text/markdown', 'markdown'],
+  ['text/x-markdown', 'markdown'],
+  ['text/plain', 'text'],
+]);
+
+// Served back with the file so the browser can open it inline
+export const DOCUMENT_MIME_TYPES: Record<DocumentKind, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  markdown: 'text/markdown; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+};
+
+// Browsers often send an empty or generic type for Markdown, so the extension decides first
+export function detectDocumentKind(name: string, mimeType: string): DocumentKind | null {
+  const extension = name.toLowerCase().split('.').pop() ?? '';
+  return EXTENSIONS.get(extension) ?? MIME_TYPES.get(mimeType.split(';')[0].trim().toLowerCase()) ?? null;
+}
+
+// Plain text of the document, page by page for PDFs and as a single page otherwise
+export async function extractDocumentText(kind: DocumentKind, data: Uint8Array): Promise<DocumentPage[]> {
+  switch (kind) {
+    case 'pdf': {
+      // pdf.js takes ownership of the buffer it is given, so it gets a copy
+      const pdf = await getDocumentProxy(new Uint8Array(data));
+      const { text } = await extractText(pdf, { mergePages: false });
+      return text.map((pageText, i) => ({ page: i + 1, text: pageText }));
+    }
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+      return [{ text: value }];
+    }
+    case 'markdown':
+    case 'text':
+      return [{ text: new TextDecoder().decode(data) }];
+  }
+}
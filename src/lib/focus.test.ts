@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { isSearchFocus, SEARCH_FOCUSES, shapeQuery } from './focus';
+
+test('every focus mode is a search focus', () => {
+  for (const focus of SEARCH_FOCUSES) assert.equal(isSearchFocus(focus), true, focus);
+});
+
+test('names inherited from Object.prototype are not search focuses', () => {
+  for (const value of ['constructor', 'toString', '__proto__', 'hasOwnProperty', '', 'ALL', 1, null]) {
+    assert.equal(isSearchFocus(value), false, String(value));
+  }
+});
+
+test('the query suffix of a focus is appended', () => {
+  assert.equal(shapeQuery('transformers', 'academic'), 'transformers research paper');
+  assert.equal(shapeQuery('transformers', 'all'), 'transformers');
+});
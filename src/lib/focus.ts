@@ -0,0 +1,75 @@
+import { SearchFocus } from '@/types';
+
+export interface FocusMode {
+  label: string;
+  description: string;
+  includeDomains?: string[];
+  recencyDays?: number;
+  topic?: 'general' | 'news';
+  // Extra terms appended to the search query
+  querySuffix?: string;
+  // Added to the answer instructions
+  instructions?: string;
+}
+
+// Shared by the API (search filters and prompt) and the UI (focus picker labels)
+export const FOCUS_MODES: Record<SearchFocus, FocusMode> = {
+  all: {
+    label: 'All',
+    description: 'Search across the entire web',
+  },
+  academic: {
+    label: 'Academic',
+    description: 'Published papers and scholarly sources',
+    includeDomains: [
+      'arxiv.org', 'biorxiv.org', 'pubmed.ncbi.nlm.nih.gov', 'ncbi.nlm.nih.gov', 'semanticscholar.org',
+      'nature.com', 'science.org', 'sciencedirect.com', 'springer.com', 'wiley.com', 'jstor.org',
+      'acm.org', 'ieee.org', 'plos.org', 'researchgate.net',
+    ],
+    querySuffix: 'research paper',
+    instructions: 'Prefer peer-reviewed findings over preprints and note study limitations. Refer to work by author and year where the source gives them. The sources are listed below the answer, so do not add a references section.',
+  },
+  news: {
+    label: 'News',
+    description: 'Recent reporting from the past week',
+    recencyDays: 7,
+    topic: 'news',
+    instructions: 'Lead with the most recent developments, give the date of each reported event, and point out where outlets report conflicting details.',
+  },
+  forums: {
+    label: 'Forums',
+    description: 'Discussions on Reddit, Hacker News and Stack Exchange',
+    includeDomains: [
+      'reddit.com', 'news.ycombinator.com', 'stackexchange.com', 'stackoverflow.com',
+      'superuser.com', 'serverfault.com', 'askubuntu.com',
+    ],
+    instructions: 'Summarize what the community generally agrees on and where people disagree. Make clear that forum posts are personal experience rather than verified fact.',
+  },
+  code: {
+    label: 'Code',
+    description: 'Documentation, GitHub and programming Q&A',
+    includeDomains: [
+      'github.com', 'stackoverflow.com', 'developer.mozilla.org', 'docs.python.org', 'readthedocs.io',
+      'learn.microsoft.com', 'pkg.go.dev', 'docs.rs', 'nodejs.org', 'typescriptlang.org',
+    ],
+    instructions: 'Prefer official documentation. Include working examples in fenced code blocks tagged with their language, and mention the library or language versions they apply to.',
+  },
+  video: {
+    label: 'Video',
+    description: 'Videos on YouTube and Vimeo',
+    includeDomains: ['youtube.com', 'vimeo.com'],
+    querySuffix: 'video',
+    instructions: 'Say which video covers which part of the question, naming the channel or creator when known.',
+  },
+};
+
+export const SEARCH_FOCUSES = Object.keys(FOCUS_MODES) as SearchFocus[];
+
+export function isSearchFocus(value: unknown): value is SearchFocus {
+  return typeof value === 'string' && Object.hasOwn(FOCUS_MODES, value);
+}
+
+export function shapeQuery(query: string, focus: SearchFocus): string {
+  const suffix = FOCUS_MODES[focus].querySuffix;
+  return suffix ? `${query} ${suffix}` : query;
+}
@@ -0,0 +1,136 @@
+import { HighlightSegment, HistorySearchHit } from '@/types';
+import { getDb } from './db';
+
+export interface HistorySearchFilters {
+  from?: Date;
+  to?: Date;
+  domain?: string; // only messages citing this domain or its subdomains
+}
+
+// Private-use characters mark matches in FTS5 highlight() output; they never occur in real text
+const MATCH_START = '\uE000';
+const MATCH_END = '\uE001';
+
+interface HitRow {
+  message_id: string;
+  chat_id: string;
+  chat_title: string;
+  timestamp: string;
+  query_hl: string;
+  answer_hl: string;
+  sources_hl: string | null;
+}
+
+let functionsRegistered = false;
+
+// url_host(url) lets SQL compare citation hosts without the www. prefix
+function registerFunctions() {
+  if (functionsRegistered) return;
+  getDb().function('url_host', { deterministic: true }, (url: unknown) => {
+    if (typeof url !== 'string') return null;
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  });
+  functionsRegistered = true;
+}
+
+function toSegments(marked: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  for (const part of marked.split(MATCH_START)) {
+    const [matched, rest] = part.includes(MATCH_END) ? part.split(MATCH_END, 2) : [null, part];
+    if (matched) segments.push({ text: matched, match: true });
+    if (rest) segments.push({ text: rest, match: false });
+  }
+  return segments;
+}
+
+// Every word must appear, each as a prefix so results update while typing.
+// Quoting keeps FTS5 operators in user input from being interpreted
+function toMatchExpression(text: string): string {
+  return text
+    .split(/\s+/)
+    .map(word => word.replace(/"/g, '').trim())
+    .filter(Boolean)
+    .map(word => `"${word}"*`)
+    .join(' ');
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '').replace(/[^a-z0-9.-]/g, '');
+}
+
+// Search queries, answers and source titles across the user's chats, best matches first.
+// With no text, the filters alone select messages, newest first
+export function searchHistory(
+  userId: string,
+  text: string,
+  filters: HistorySearchFilters = {},
+  limit = 50
+): HistorySearchHit[] {
+  registerFunctions();
+
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  const match = toMatchExpression(text);
+  if (match) {
+    conditions.push('messages_fts MATCH ?');
+    params.push(match);
+  }
+  if (filters.from) {
+    conditions.push('m.timestamp >= ?');
+    params.push(filters.from.toISOString());
+  }
+  if (filters.to) {
+    conditions.push('m.timestamp < ?');
+    params.push(filters.to.toISOString());
+  }
+  const domain = filters.domain ? normalizeDomain(filters.domain) : '';
+  if (domain) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM json_each(m.response, '$.citations') AS citation
+      WHERE url_host(json_extract(citation.value, '$.url')) = ?
+         OR url_host(json_extract(citation.value, '$.url')) LIKE '%.' || ?
+    )`);
+    params.push(domain, domain);
+  }
+  if (conditions.length === 0) return [];
+  conditions.push('c.user_id = ?');
+  params.push(userId);
+
+  const sql = match
+    ? `SELECT m.id AS message_id, m.chat_id, c.title AS chat_title, m.timestamp,
+         highlight(messages_fts, 0, '${MATCH_START}', '${MATCH_END}') AS query_hl,
+         snippet(messages_fts, 1, '${MATCH_START}', '${MATCH_END}', '…', 24) AS answer_hl,
+         snippet(messages_fts, 2, '${MATCH_START}', '${MATCH_END}', '…', 12) AS sources_hl
+       FROM messages_fts
+       JOIN messages m ON m.rowid = messages_fts.rowid
+       JOIN chats c ON c.id = m.chat_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY bm25(messages_fts, 4.0, 1.0, 2.0)
+       LIMIT ?`
+    : `SELECT m.id AS message_id, m.chat_id, c.title AS chat_title, m.timestamp,
+         m.query AS query_hl,
+         substr(json_extract(m.response, '$.answer'), 1, 160) AS answer_hl,
+         NULL AS sources_hl
+       FROM messages m
+       JOIN chats c ON c.id = m.chat_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY m.timestamp DESC
+       LIMIT ?`;
+
+  const rows = getDb().prepare(sql).all(...params, limit) as HitRow[];
+
+  return rows.map(row => ({
+    chatId: row.chat_id,
+    chatTitle: row.chat_title,
+    messageId: row.message_id,
+    timestamp: new Date(row.timestamp),
+    query: toSegments(row.query_hl),
+    answer: toSegments(row.answer_hl ?? ''),
+    sources: row.sources_hl?.includes(MATCH_START) ? toSegments(row.sources_hl) : undefined,
+  }));
+}
@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+import { tokenize } from '@/lib/retrieval/passages';
+
+// Turns passages into vectors for semantic search. Vectors are unit length, so a dot
+// product is their cosine similarity. The name is stored with every indexed document;
+// switching embedders makes the next index run embed everything again
+export interface Embedder {
+  name: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export type EmbedderName = 'hash' | 'openai-compatible';
+
+export interface EmbedderConfig {
+  name: EmbedderName;
+  url: string;
+  model: string;
+  apiKey?: string;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+// Feature hashing of words and word pairs: no model to download, but it only matches
+// shared vocabulary, so it mostly helps with word order and phrasing next to BM25
+export function createHashEmbedder(dimensions = 512): Embedder {
+  const bucket = (feature: string) => {
+    const digest = createHash('md5').update(feature).digest();
+    return { index: digest.readUInt32LE(0) % dimensions, sign: digest[4] & 1 ? 1 : -1 };
+  };
+
+  return {
+    name: `hash-${dimensions}`,
+    async embed(texts) {
+      return texts.map(text => {
+        const terms = tokenize(text);
+        const counts = new Map<string, number>();
+        terms.forEach((term, i) => {
+          counts.set(term, (counts.get(term) ?? 0) + 1);
+          if (i > 0) counts.set(`${terms[i - 1]} ${term}`, (counts.get(`${terms[i - 1]} ${term}`) ?? 0) + 1);
+        });
+
+        const vector = new Float32Array(dimensions);
+        for (const [feature, count] of counts) {
+          const { index, sign } = bucket(feature);
+          vector[index] += sign * (1 + Math.log(count));
+        }
+        return normalize(vector);
+      });
+    },
+  };
+}
+
+// Any server exposing the OpenAI embeddings API, e.g. Ollama, LM Studio, llama.cpp or
+// text-embeddings-inference running next to the app
+export function createOpenAICompatibleEmbedder({ url, model, apiKey }: Omit<EmbedderConfig, 'name'>): Embedder {
+  const client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: url });
+
+  return {
+    name: `openai-compatible:${model}`,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const response = await client.embeddings.create({ model, input: texts });
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => normalize(Float32Array.from(item.embedding)));
+    },
+  };
+}
+
+// KNOWLEDGE_EMBEDDER picks the implementation; the built-in hash embedder is the default
+export function getEmbedderConfig(): EmbedderConfig {
+  return {
+    name: process.env.KNOWLEDGE_EMBEDDER === 'openai-compatible' ? 'openai-compatible' : 'hash',
+    url: process.env.KNOWLEDGE_EMBEDDER_URL || 'http://localhost:11434/v1',
+    model: process.env.KNOWLEDGE_EMBEDDER_MODEL || 'nomic-embed-text',
+    apiKey: process.env.KNOWLEDGE_EMBEDDER_API_KEY,
+  };
+}
+
+export function createEmbedder(config: EmbedderConfig = getEmbedderConfig()): Embedder {
+  switch (config.name) {
+    case 'hash':
+      return createHashEmbedder();
+    case 'openai-compatible':
+      return createOpenAICompatibleEmbedder(config);
+  }
+}
@@ -0,0 +1,219 @@
+import { createHash } from 'crypto';
+import { SearchResult } from '@/types';
+import { getDb } from '@/lib/db';
+import { toMatchExpression } from '@/lib/retrieval/passages';
+import { createEmbedder, Embedder } from './embedders';
+
+export type { Embedder, EmbedderConfig, EmbedderName } from './embedders';
+export { createEmbedder, getEmbedderConfig } from './embedders';
+
+export interface KnowledgeConfig {
+  sources: string[]; // directories and sitemap URLs
+  maxResults: number; // knowledge base results per answer, one per document page
+  minSimilarity: number; // embedding matches below this cosine similarity are ignored
+}
+
+// KNOWLEDGE_SOURCES is a comma-separated list, e.g. "./docs,https://wiki.example.com/sitemap.xml"
+export function getKnowledgeConfig(): KnowledgeConfig {
+  return {
+    sources: (process.env.KNOWLEDGE_SOURCES ?? '')
+      .split(',')
+      .map(source => source.trim())
+      .filter(Boolean),
+    maxResults: Number(process.env.KNOWLEDGE_MAX_RESULTS) || 4,
+    minSimilarity: Number(process.env.KNOWLEDGE_MIN_SIMILARITY) || 0.25,
+  };
+}
+
+export function isSitemapSource(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+// Stable per item, so citations keep working after the item is re-indexed
+export function knowledgeDocumentId(source: string, location: string): string {
+  return `kb_${createHash('sha256').update(`${source}\n${location}`).digest('base64url').slice(0, 16)}`;
+}
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Files are served by the app; sitemap pages link to the page itself
+export function knowledgeUrl(documentId: string, location: string, page?: number): string {
+  if (isSitemapSource(location)) return location;
+  return `/api/knowledge/${documentId}${page ? `#page=${page}` : ''}`;
+}
+
+export interface KnowledgeDocumentRow {
+  id: string;
+  source: string;
+  location: string;
+  title: string;
+  kind: string;
+  version: string;
+  content_hash: string;
+  embedder: string;
+  chunk_count: number;
+  indexed_at: string;
+}
+
+export interface KnowledgeChunk {
+  text: string;
+  page?: number;
+  vector: Float32Array;
+}
+
+interface ChunkHitRow {
+  chunk_id: number;
+  text: string;
+  document_id: string;
+  page: number | null;
+  title: string;
+  location: string;
+}
+
+export function getKnowledgeDocument(id: string): KnowledgeDocumentRow | null {
+  const row = getDb().prepare('SELECT * FROM knowledge_documents WHERE id = ?').get(id) as KnowledgeDocumentRow | undefined;
+  return row ?? null;
+}
+
+export function listKnowledgeDocuments(source?: string): KnowledgeDocumentRow[] {
+  const db = getDb();
+  return (source === undefined
+    ? db.prepare('SELECT * FROM knowledge_documents ORDER BY source, location').all()
+    : db.prepare('SELECT * FROM knowledge_documents WHERE source = ? ORDER BY location').all(source)) as KnowledgeDocumentRow[];
+}
+
+// Replace a document's passages and vectors in one transaction
+export function saveKnowledgeDocument(
+  document: Omit<KnowledgeDocumentRow, 'chunk_count' | 'indexed_at'>,
+  chunks: KnowledgeChunk[]
+): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('DELETE FROM knowledge_chunks WHERE document_id = ?').run(document.id);
+    db.prepare('DELETE FROM knowledge_vectors WHERE document_id = ?').run(document.id);
+    db.prepare(
+      `INSERT INTO knowledge_documents (id, source, location, title, kind, version, content_hash, embedder, chunk_count, indexed_at)
+       VALUES (@id, @source, @location, @title, @kind, @version, @content_hash, @embedder, @chunk_count, @indexed_at)
+       ON CONFLICT (id) DO UPDATE SET
+         title = excluded.title, kind = excluded.kind, version = excluded.version, content_hash = excluded.content_hash,
+         embedder = excluded.embedder, chunk_count = excluded.chunk_count, indexed_at = excluded.indexed_at`
+    ).run({ ...document, chunk_count: chunks.length, indexed_at: new Date().toISOString() });
+
+    const insertChunk = db.prepare(
+      'INSERT INTO knowledge_chunks (text, title, document_id, page, position) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertVector = db.prepare('INSERT INTO knowledge_vectors (chunk_id, document_id, vector) VALUES (?, ?, ?)');
+    chunks.forEach((chunk, position) => {
+      const { lastInsertRowid } = insertChunk.run(chunk.text, document.title, document.id, chunk.page ?? null, position);
+      insertVector.run(lastInsertRowid, document.id, Buffer.from(chunk.vector.buffer, chunk.vector.byteOffset, chunk.vector.byteLength));
+    });
+  })();
+}
+
+// Record a new version of an item whose text did not change
+export function touchKnowledgeDocument(id: string, version: string): void {
+  getDb().prepare('UPDATE knowledge_documents SET version = ? WHERE id = ?').run(version, id);
+}
+
+export function deleteKnowledgeDocument(id: string): void {
+  getDb().prepare('DELETE FROM knowledge_documents WHERE id = ?').run(id);
+}
+
+function keywordMatches(query: string, limit: number): number[] {
+  const match = toMatchExpression(query);
+  if (!match) return [];
+  const rows = getDb().prepare(
+    `SELECT rowid AS chunk_id FROM knowledge_chunks WHERE knowledge_chunks MATCH ? ORDER BY bm25(knowledge_chunks) LIMIT ?`
+  ).all(match, limit) as { chunk_id: number }[];
+  return rows.map(row => row.chunk_id);
+}
+
+// Brute-force cosine similarity over the vectors made by the current embedder; fine for
+// the tens of thousands of passages a team's docs produce
+async function embeddingMatches(query: string, embedder: Embedder, limit: number, minSimilarity: number): Promise<number[]> {
+  const [queryVector] = await embedder.embed([query]);
+  const rows = getDb().prepare(
+    `SELECT v.chunk_id, v.vector FROM knowledge_vectors v
+     JOIN knowledge_documents d ON d.id = v.document_id
+     WHERE d.embedder = ?`
+  ).all(embedder.name) as { chunk_id: number; vector: Buffer }[];
+
+  const scored: { chunkId: number; similarity: number }[] = [];
+  for (const row of rows) {
+    const vector = new Float32Array(new Uint8Array(row.vector).buffer);
+    if (vector.length !== queryVector.length) continue;
+    let similarity = 0;
+    for (let i = 0; i < vector.length; i++) similarity += vector[i] * queryVector[i];
+    if (similarity >= minSimilarity) scored.push({ chunkId: row.chunk_id, similarity });
+  }
+  return scored
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(match => match.chunkId);
+}
+
+// Reciprocal rank fusion: a passage ranked well by either list rises, ranked well by both rises most
+const RRF_K = 60;
+
+function fuseRankings(lists: number[][]): number[] {
+  const scores = new Map<number, number>();
+  for (const list of lists) {
+    list.forEach((chunkId, rank) => scores.set(chunkId, (scores.get(chunkId) ?? 0) + 1 / (RRF_K + rank + 1)));
+  }
+  return [...scores].sort((a, b) => b[1] - a[1]).map(([chunkId]) => chunkId);
+}
+
+// Hybrid search over the knowledge base, one result per document page. Keyword matches
+// are used alone when the embedder cannot be reached
+export async function searchKnowledge(
+  query: string,
+  limit = getKnowledgeConfig().maxResults,
+  embedder: Embedder = createEmbedder()
+): Promise<SearchResult[]> {
+  const candidates = limit * 5;
+  const keyword = keywordMatches(query, candidates);
+  let semantic: number[] = [];
+  try {
+    semantic = await embeddingMatches(query, embedder, candidates, getKnowledgeConfig().minSimilarity);
+  } catch (error) {
+    console.warn('Knowledge base embedder failed, using keyword matches only:', error instanceof Error ? error.message : error);
+  }
+
+  const ranked = fuseRankings([keyword, semantic]).slice(0, limit * 3);
+  if (ranked.length === 0) return [];
+
+  const rows = getDb().prepare(
+    `SELECT c.rowid AS chunk_id, c.text, c.document_id, c.page, d.title, d.location
+     FROM knowledge_chunks c
+     JOIN knowledge_documents d ON d.id = c.document_id
+     WHERE c.rowid IN (${ranked.map(() => '?').join(', ')})`
+  ).all(...ranked) as ChunkHitRow[];
+  const byChunk = new Map(rows.map(row => [row.chunk_id, row]));
+
+  // Group the fused passages by document page, keeping the order of each page's best passage
+  const byPage = new Map<string, SearchResult>();
+  for (const chunkId of ranked) {
+    const row = byChunk.get(chunkId);
+    if (!row) continue;
+
+    const key = `${row.document_id}:${row.page ?? ''}`;
+    const existing = byPage.get(key);
+    if (existing) {
+      existing.content += `\n...\n${row.text}`;
+      continue;
+    }
+    if (byPage.size >= limit) continue;
+
+    const page = row.page ?? undefined;
+    byPage.set(key, {
+      title: page ? `${row.title}, page ${page}` : row.title,
+      url: knowledgeUrl(row.document_id, row.location, page),
+      content: row.text,
+      provider: 'knowledge',
+      knowledge: { documentId: row.document_id, location: row.location, page },
+    });
+  }
+  return [...byPage.values()];
+}
@@ -0,0 +1,221 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, join, relative, resolve, sep } from 'path';
+import { detectDocumentKind, DocumentPage, extractDocumentText, getDocumentConfig } from '@/lib/documents';
+import { decodeEntities, extractReadableText } from '@/lib/retrieval/extract';
+import { fetchPage } from '@/lib/retrieval/fetchPage';
+import { getRetrievalConfig } from '@/lib/retrieval';
+import { splitPassages } from '@/lib/retrieval/passages';
+import {
+  contentHash,
+  createEmbedder,
+  deleteKnowledgeDocument,
+  Embedder,
+  getKnowledgeConfig,
+  isSitemapSource,
+  knowledgeDocumentId,
+  listKnowledgeDocuments,
+  saveKnowledgeDocument,
+  touchKnowledgeDocument,
+} from './index';
+
+// Something in a source that can be indexed. version is cheap to read (file mtime and
+// size, or a sitemap's lastmod) so unchanged items are skipped without loading them
+interface KnowledgeItem {
+  location: string;
+  version: string;
+  load(): Promise<{ title: string; kind: string; pages: DocumentPage[] }>;
+}
+
+export interface IndexOptions {
+  full?: boolean; // re-read and re-embed everything
+  log?: (message: string) => void;
+}
+
+export interface IndexReport {
+  indexed: number;
+  unchanged: number;
+  removed: number;
+  failed: { location: string; error: string }[];
+}
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+const MAX_SITEMAP_DEPTH = 3;
+const EMBED_BATCH_SIZE = 32;
+
+function markdownTitle(text: string): string | undefined {
+  return text.match(/^#\s+(.+)$/m)?.[1].trim();
+}
+
+async function listDirectory(directory: string): Promise<KnowledgeItem[]> {
+  const root = resolve(directory);
+  const { maxBytes } = getDocumentConfig();
+  const items: KnowledgeItem[] = [];
+
+  const walk = async (path: string) => {
+    for (const entry of await readdir(path, { withFileTypes: true })) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = join(path, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) await walk(fullPath);
+        continue;
+      }
+
+      const kind = /\.html?$/i.test(entry.name) ? 'html' : detectDocumentKind(entry.name, '');
+      if (!entry.isFile() || !kind) continue;
+
+      const { mtimeMs, size } = await stat(fullPath);
+      items.push({
+        location: relative(root, fullPath).split(sep).join('/'),
+        version: `${Math.floor(mtimeMs)}:${size}`,
+        async load() {
+          if (size > maxBytes) throw new Error(`File is ${size} bytes, over the ${maxBytes} byte limit`);
+          const data = await readFile(fullPath);
+          const fallbackTitle = basename(entry.name).replace(/\.[^.]+$/, '');
+          if (kind === 'html') {
+            const { title, text } = extractReadableText(data.toString('utf-8'));
+            return { title: title || fallbackTitle, kind, pages: [{ text }] };
+          }
+          const pages = await extractDocumentText(kind, new Uint8Array(data));
+          const title = kind === 'markdown' ? markdownTitle(pages[0]?.text ?? '') : undefined;
+          return { title: title || fallbackTitle, kind, pages };
+        },
+      });
+    }
+  };
+
+  await walk(root);
+  return items;
+}
+
+function sitemapEntries(xml: string, tag: 'url' | 'sitemap'): { loc: string; lastmod: string }[] {
+  return [...xml.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi'))]
+    .map(([, body]) => ({
+      loc: decodeEntities(body.match(/<loc>\s*([\s\S]*?)\s*<\/loc>/i)?.[1] ?? ''),
+      lastmod: body.match(/<lastmod>\s*([\s\S]*?)\s*<\/lastmod>/i)?.[1] ?? '',
+    }))
+    .filter(entry => isSitemapSource(entry.loc));
+}
+
+// Pages listed in a sitemap, following sitemap indexes. Pages are fetched like retrieved
+// search results: robots.txt and the retrieval timeouts apply
+async function listSitemap(sitemapUrl: string): Promise<KnowledgeItem[]> {
+  const limits = { ...getRetrievalConfig(), maxBytes: getDocumentConfig().maxBytes };
+  const items = new Map<string, KnowledgeItem>();
+  const visited = new Set<string>();
+
+  const read = async (url: string, depth: number) => {
+    if (visited.has(url) || depth > MAX_SITEMAP_DEPTH) return;
+    visited.add(url);
+
+    const { body } = await fetchPage(url, limits, /xml|text\/plain/);
+    for (const nested of sitemapEntries(body, 'sitemap')) {
+      await read(nested.loc, depth + 1);
+    }
+    for (const { loc, lastmod } of sitemapEntries(body, 'url')) {
+      items.set(loc, {
+        location: loc,
+        version: lastmod,
+        async load() {
+          const page = await fetchPage(loc, limits);
+          if (/text\/plain/.test(page.contentType)) return { title: loc, kind: 'text', pages: [{ text: page.body }] };
+          const { title, text } = extractReadableText(page.body);
+          return { title: title || loc, kind: 'html', pages: [{ text }] };
+        },
+      });
+    }
+  };
+
+  await read(sitemapUrl, 0);
+  return [...items.values()];
+}
+
+async function embedAll(embedder: Embedder, texts: string[]): Promise<Float32Array[]> {
+  const vectors: Float32Array[] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    vectors.push(...await embedder.embed(texts.slice(start, start + EMBED_BATCH_SIZE)));
+  }
+  return vectors;
+}
+
+// Bring the index in line with KNOWLEDGE_SOURCES: new and changed items are indexed,
+// unchanged ones skipped, and items that disappeared (or whose source was removed from
+// the list) dropped. A source that cannot be listed keeps its previous index
+export async function indexKnowledgeBase({ full = false, log = console.log }: IndexOptions = {}): Promise<IndexReport> {
+  const { sources } = getKnowledgeConfig();
+  const embedder = createEmbedder();
+  const report: IndexReport = { indexed: 0, unchanged: 0, removed: 0, failed: [] };
+
+  for (const document of listKnowledgeDocuments()) {
+    if (!sources.includes(document.source)) {
+      deleteKnowledgeDocument(document.id);
+      report.removed++;
+    }
+  }
+
+  for (const source of sources) {
+    log(`Indexing ${source} with the ${embedder.name} embedder`);
+    let items: KnowledgeItem[];
+    try {
+      items = isSitemapSource(source) ? await listSitemap(source) : await listDirectory(source);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`  could not list ${source}: ${message}`);
+      report.failed.push({ location: source, error: message });
+      continue;
+    }
+
+    const existing = new Map(listKnowledgeDocuments(source).map(document => [document.location, document]));
+    for (const item of items) {
+      const current = existing.get(item.location);
+      existing.delete(item.location);
+      const sameEmbedder = current?.embedder === embedder.name;
+      if (!full && current && sameEmbedder && item.version && current.version === item.version) {
+        report.unchanged++;
+        continue;
+      }
+
+      try {
+        const { title, kind, pages } = await item.load();
+        const hash = contentHash(pages.map(page => page.text).join('\n'));
+        if (!full && current && sameEmbedder && current.content_hash === hash) {
+          touchKnowledgeDocument(current.id, item.version);
+          report.unchanged++;
+          continue;
+        }
+
+        const passages = pages.flatMap(page => splitPassages(page.text).map(text => ({ page: page.page, text })));
+        if (passages.length === 0) throw new Error('No text found');
+        // The title is embedded with each passage so passages that never repeat it still match
+        const vectors = await embedAll(embedder, passages.map(passage => `${title}\n${passage.text}`));
+
+        saveKnowledgeDocument(
+          {
+            id: knowledgeDocumentId(source, item.location),
+            source,
+            location: item.location,
+            title,
+            kind,
+            version: item.version,
+            content_hash: hash,
+            embedder: embedder.name,
+          },
+          passages.map((passage, i) => ({ ...passage, vector: vectors[i] }))
+        );
+        report.indexed++;
+        log(`  indexed ${item.location} (${passages.length} passages)`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`  skipped ${item.location}: ${message}`);
+        report.failed.push({ location: item.location, error: message });
+      }
+    }
+
+    for (const stale of existing.values()) {
+      deleteKnowledgeDocument(stale.id);
+      report.removed++;
+      log(`  removed ${stale.location}`);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,133 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { ModelOption } from '@/types';
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatCompletionMessageParam[];
+  maxTokens: number;
+  temperature: number;
+}
+
+// A chat-completion backend; complete() returns the whole text, stream() yields deltas
+export interface LlmProvider {
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export interface LlmClientOptions {
+  apiKey?: string;
+  baseURL?: string;
+  timeoutMs: number; // per attempt, until the response starts
+  maxRetries: number; // the SDK retries timeouts, connection errors, 429s and 5xx
+}
+
+// Works with OpenAI itself and any server exposing the same API (vLLM, Ollama, LM Studio)
+export function createOpenAICompatibleProvider(options: LlmClientOptions): LlmProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: options.apiKey || 'not-needed',
+    baseURL: options.baseURL,
+    // The SDK waits ten minutes by default, far longer than anyone waits for an answer
+    timeout: options.timeoutMs,
+    maxRetries: options.maxRetries,
+  });
+
+  return {
+    async complete({ model, messages, maxTokens, temperature }) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+      });
+      return completion.choices[0]?.message?.content ?? '';
+    },
+
+    async *stream({ model, messages, maxTokens, temperature }) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+        stream: true,
+      });
+      for await (const chunk of completion) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+let provider: LlmProvider | null = null;
+
+function parseRetries(value: string | undefined): number {
+  const retries = Number(value);
+  return value?.trim() && Number.isInteger(retries) && retries >= 0 ? retries : 1;
+}
+
+// LLM_BASE_URL points at an OpenAI-compatible server; without it we talk to OpenAI
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createOpenAICompatibleProvider({
+      apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+      baseURL: process.env.LLM_BASE_URL || undefined,
+      timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 120_000,
+      maxRetries: parseRetries(process.env.LLM_MAX_RETRIES),
+    });
+  }
+  return provider;
+}
+
+export function isLlmConfigured(): boolean {
+  return !!(process.env.LLM_BASE_URL || process.env.LLM_API_KEY || process.env.OPENAI_API_KEY);
+}
+
+// LLM_MODELS is the comma-separated allowlist of models clients may request; the first is the default
+export function getAllowedModels(): string[] {
+  const models = (process.env.LLM_MODELS || 'gpt-4')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+  return models.length > 0 ? models : ['gpt-4'];
+}
+
+export function getDefaultModel(): string {
+  const allowed = getAllowedModels();
+  const configured = process.env.LLM_DEFAULT_MODEL;
+  return configured && allowed.includes(configured) ? configured : allowed[0];
+}
+
+// Titles are cheap, so they may use a smaller model than answers
+export function getTitleModel(): string {
+  return process.env.LLM_TITLE_MODEL || getDefaultModel();
+}
+
+// Returns the model to use for a request, or null when the requested model is not allowed
+export function resolveModel(requested?: unknown): string | null {
+  if (requested === undefined || requested === null || requested === '') {
+    return getDefaultModel();
+  }
+  if (typeof requested !== 'string') return null;
+  return getAllowedModels().includes(requested) ? requested : null;
+}
+
+export function getModelOptions(): ModelOption[] {
+  const defaultModel = getDefaultModel();
+  return getAllowedModels().map(id => ({ id, isDefault: id === defaultModel }));
+}
+
+// Models often wrap JSON in prose or code fences; take the outermost array
+export function extractJsonArray<T>(output: string): T[] {
+  const start = output.indexOf('[');
+  const end = output.lastIndexOf(']');
+  if (start === -1 || end < start) {
+    throw new Error('Model output did not contain a JSON array');
+  }
+  const parsed = JSON.parse(output.slice(start, end + 1));
+  if (!Array.isArray(parsed)) {
+    throw new Error('Model output was not a JSON array');
+  }
+  return parsed as T[];
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { fetchImage, isPrivateAddress } from './fetchImage';
+import { MediaConfig } from './index';
+
+const config: MediaConfig = { maxResults: 8, proxyMaxBytes: 1024, proxyTimeoutMs: 1000 };
+
+test('private IPv4 addresses are blocked', () => {
+  for (const address of ['0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1', '192.168.1.1', '224.0.0.1', '255.255.255.255']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+});
+
+test('private IPv6 addresses are blocked', () => {
+  for (const address of ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'fe80::1%eth0', 'ff02::1']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+});
+
+test('IPv4 addresses embedded in IPv6 are checked as IPv4', () => {
+  for (const address of [
+    '::ffff:127.0.0.1', '::ffff:7f00:1', '::FFFF:7F00:0001', '::ffff:0:a00:1', '::127.0.0.1',
+    '64:ff9b::7f00:1', '64:ff9b::10.0.0.1', '2002:7f00:1::', '2002:c0a8:101::1', '2001:0:4136:e378:8000:63bf:80ff:fffe',
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  assert.equal(isPrivateAddress('::ffff:8.8.8.8'), false);
+  assert.equal(isPrivateAddress('64:ff9b::808:808'), false);
+  assert.equal(isPrivateAddress('2002:808:808::1'), false);
+});
+
+test('public addresses are allowed', () => {
+  for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '2001:4860:4860::8888']) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test('anything that is not an address is blocked', () => {
+  assert.equal(isPrivateAddress('localhost'), true);
+});
+
+test('fetchImage rejects private IP literals, including the bracketed hex form of a mapped address', async () => {
+  for (const url of ['http://127.0.0.1/a.png', 'http://[::1]/a.png', 'http://[::ffff:127.0.0.1]/a.png', 'http://[::ffff:7f00:1]/a.png', 'http://[64:ff9b::a00:1]/a.png']) {
+    await assert.rejects(fetchImage(url, config), /Address is not public/, url);
+  }
+});
+
+test('fetchImage rejects non-HTTP URLs', async () => {
+  await assert.rejects(fetchImage('file:///etc/passwd', config), /Unsupported protocol/);
+});
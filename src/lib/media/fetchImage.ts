@@ -0,0 +1,134 @@
+import { lookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Agent, fetch } from 'undici';
+import { USER_AGENT } from '@/lib/retrieval/robots';
+import { readLimitedBytes } from '@/lib/retrieval/fetchPage';
+import { MediaConfig } from './index';
+
+// SVG can carry scripts, so only raster formats are proxied
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif'];
+const MAX_REDIRECTS = 3;
+
+// Everything that is not a public unicast address: this host, private and shared networks,
+// link-local, benchmarking, documentation, multicast and reserved ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// The eight 16-bit groups of a valid IPv6 address, with "::" expanded and a dotted IPv4 tail
+// turned into the last two groups
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  if (tail === undefined) return parse(head);
+  const front = parse(head);
+  const back = parse(tail);
+  return [...front, ...new Array(8 - front.length - back.length).fill(0), ...back];
+}
+
+// IPv4 addresses carried inside an IPv6 one, which the network may end up delivering to
+function embeddedIPv4(groups: number[]): string[] {
+  const ipv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  const zeros = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+
+  // IPv4-compatible ::a.b.c.d, IPv4-mapped ::ffff:a.b.c.d and IPv4-translated ::ffff:0:a.b.c.d
+  if (zeros(0, 5) && (groups[5] === 0 || groups[5] === 0xffff)) return [ipv4(groups[6], groups[7])];
+  if (zeros(0, 4) && groups[4] === 0xffff && groups[5] === 0) return [ipv4(groups[6], groups[7])];
+  // NAT64 64:ff9b::a.b.c.d
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6)) return [ipv4(groups[6], groups[7])];
+  // 6to4 2002:AABB:CCDD::
+  if (groups[0] === 0x2002) return [ipv4(groups[1], groups[2])];
+  // Teredo 2001:0:server:...:client, with the client address stored inverted
+  if (groups[0] === 0x2001 && groups[1] === 0) {
+    return [ipv4(groups[2], groups[3]), ipv4(groups[6] ^ 0xffff, groups[7] ^ 0xffff)];
+  }
+  return [];
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return blockedAddresses.check(address, 'ipv4');
+  if (family !== 6) return true;
+
+  const groups = ipv6Groups(address);
+  if (embeddedIPv4(groups).some(embedded => blockedAddresses.check(embedded, 'ipv4'))) return true;
+  return blockedAddresses.check(groups.map(group => group.toString(16)).join(':'), 'ipv6');
+}
+
+// Resolve like dns.lookup, but fail when the name has any private address. The agent connects
+// to the address returned here, so a second lookup cannot hand it a different one
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new Error('Address is not public'), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// The proxy takes any URL from the client, so it must not reach the server's own network.
+// Host names are checked when the agent connects; IP literals are never looked up, so check them here
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw new Error('Address is not public');
+  }
+}
+
+// Fetch a remote image within the size and time limits, following a few redirects and
+// checking every hop
+export async function fetchImage(rawUrl: string, config: MediaConfig): Promise<{ data: Uint8Array; contentType: string }> {
+  let url = new URL(rawUrl);
+  const signal = AbortSignal.timeout(config.proxyTimeoutMs);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(url);
+    const response = await fetch(url, {
+      dispatcher: publicAgent,
+      headers: { 'User-Agent': USER_AGENT, 'Accept': IMAGE_TYPES.join(',') },
+      redirect: 'manual',
+      signal,
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      url = new URL(location, url);
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    if (!IMAGE_TYPES.includes(contentType)) {
+      throw new Error(`Unsupported content type ${contentType || 'unknown'}`);
+    }
+    return { data: await readLimitedBytes(response, config.proxyMaxBytes), contentType };
+  }
+
+  throw new Error('Too many redirects');
+}
@@ -0,0 +1,27 @@
+// Images and videos returned next to search results. Safe to import from client components
+
+export interface MediaConfig {
+  maxResults: number; // 0 turns media off
+  proxyMaxBytes: number;
+  proxyTimeoutMs: number;
+}
+
+function parseCount(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const count = Number(value);
+  return Number.isFinite(count) && count >= 0 ? Math.floor(count) : fallback;
+}
+
+// MEDIA_MAX_RESULTS=0 stops asking providers for images and videos
+export function getMediaConfig(): MediaConfig {
+  return {
+    maxResults: parseCount(process.env.MEDIA_MAX_RESULTS, 8),
+    proxyMaxBytes: Number(process.env.MEDIA_PROXY_MAX_BYTES) || 5_000_000,
+    proxyTimeoutMs: Number(process.env.MEDIA_PROXY_TIMEOUT_MS) || 8000,
+  };
+}
+
+// Remote images are loaded through our proxy, so the browser never contacts image hosts directly
+export function mediaProxyUrl(url: string): string {
+  return `/api/media?url=${encodeURIComponent(url)}`;
+}
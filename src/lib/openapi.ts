@@ -0,0 +1,199 @@
+import { SEARCH_FOCUSES } from './focus';
+import { getAllowedModels, getDefaultModel } from './llm';
+import { SEARCH_PROVIDER_NAMES } from './search';
+import { STREAM_CONTENT_TYPE } from './stream';
+import { API_ERROR_CODES } from './apiErrors';
+import { SEARCH_MODES, SEARCH_REQUEST_LIMITS as limits } from './searchRequest';
+
+type Schema = Record<string, unknown>;
+
+const string: Schema = { type: 'string' };
+const integer: Schema = { type: 'integer' };
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (items: Schema): Schema => ({ type: 'array', items });
+
+function object(properties: Record<string, Schema>, required: string[] = []): Schema {
+  return { type: 'object', properties, ...(required.length > 0 && { required }) };
+}
+
+const verdict: Schema = { type: 'string', enum: ['supported', 'weak', 'unsupported'] };
+
+// Component schemas, one per type in src/types/index.ts that the public API exposes.
+// Keep them in step when those types change
+function schemas(): Record<string, Schema> {
+  return {
+    ConversationMessage: object({
+      query: { ...string, maxLength: limits.queryLength },
+      answer: { ...string, maxLength: limits.contextAnswerLength },
+    }, ['query', 'answer']),
+    PublicSearchRequest: object({
+      query: { ...string, minLength: 1, maxLength: limits.queryLength, description: 'The question to answer' },
+      conversationContext: {
+        ...arrayOf(ref('ConversationMessage')),
+        maxItems: limits.contextMessages,
+        description: 'Earlier turns, oldest first',
+      },
+      stream: { type: 'boolean', default: false, description: `Answer as ${STREAM_CONTENT_TYPE} SearchStreamEvents` },
+      providers: {
+        ...arrayOf({ type: 'string', enum: SEARCH_PROVIDER_NAMES }),
+        maxItems: limits.providers,
+        description: 'Subset of the search providers enabled on this server; all enabled providers when omitted',
+      },
+      model: { type: 'string', enum: getAllowedModels(), default: getDefaultModel() },
+      focus: { type: 'string', enum: SEARCH_FOCUSES, default: 'all' },
+      mode: { type: 'string', enum: SEARCH_MODES, default: 'quick' },
+      bypassCache: { type: 'boolean', default: false, description: 'Search and answer again instead of using cached results' },
+    }, ['query']),
+    KnowledgeLocation: object({ documentId: string, location: string, page: integer }, ['documentId', 'location']),
+    SearchResult: object({
+      title: string,
+      url: string,
+      content: string,
+      score: { type: 'number' },
+      provider: string,
+      metadata: { type: 'object', additionalProperties: true },
+      knowledge: ref('KnowledgeLocation'),
+    }, ['title', 'url', 'content']),
+    Citation: object({
+      index: { ...integer, description: 'The [n] marker used in the answer' },
+      url: string,
+      title: string,
+      quote: string,
+      verdict,
+      knowledge: ref('KnowledgeLocation'),
+    }, ['index', 'url', 'title']),
+    ClaimVerification: object({
+      sentenceIndex: integer,
+      sentence: string,
+      citationIndex: integer,
+      quote: string,
+      verdict,
+    }, ['sentenceIndex', 'sentence', 'citationIndex', 'quote', 'verdict']),
+    MediaResult: object({
+      type: { type: 'string', enum: ['image', 'video'] },
+      url: string,
+      thumbnailUrl: string,
+      title: string,
+      sourceUrl: string,
+      width: integer,
+      height: integer,
+      provider: string,
+    }, ['type', 'url']),
+    ResearchSummary: object({ subQuestions: arrayOf(string), rounds: integer, sourcesRead: integer }, ['subQuestions', 'rounds', 'sourcesRead']),
+    CacheInfo: object({ hit: { type: 'boolean' }, ageSeconds: integer, bypassed: { type: 'boolean' } }, ['hit', 'ageSeconds']),
+    SearchResponse: object({
+      query: string,
+      answer: { ...string, description: 'Markdown with [n] citation markers' },
+      sources: arrayOf(ref('SearchResult')),
+      media: arrayOf(ref('MediaResult')),
+      citations: arrayOf(ref('Citation')),
+      claims: arrayOf(ref('ClaimVerification')),
+      model: string,
+      searchQueries: arrayOf(string),
+      relatedQuestions: arrayOf(string),
+      research: ref('ResearchSummary'),
+      cache: ref('CacheInfo'),
+    }, ['query', 'answer', 'sources', 'citations']),
+    ResearchProgress: object({
+      stage: { type: 'string', enum: ['planning', 'planned', 'searching', 'read', 'reviewing', 'writing'] },
+      round: integer,
+      subQuestions: arrayOf(string),
+      query: string,
+      newSources: integer,
+      totalSources: integer,
+    }, ['stage']),
+    SearchStreamEvent: {
+      oneOf: [
+        object({ type: { const: 'progress' }, progress: ref('ResearchProgress') }, ['type', 'progress']),
+        object({
+          type: { const: 'sources' },
+          query: string,
+          sources: arrayOf(ref('SearchResult')),
+          media: arrayOf(ref('MediaResult')),
+          searchQueries: arrayOf(string),
+        }, ['type', 'query', 'sources']),
+        object({ type: { const: 'delta' }, text: string }, ['type', 'text']),
+        object({ type: { const: 'citations' }, citations: arrayOf(ref('Citation')), claims: arrayOf(ref('ClaimVerification')) }, ['type', 'citations']),
+        object({ type: { const: 'done' }, response: ref('SearchResponse') }, ['type', 'response']),
+        { allOf: [object({ type: { const: 'error' } }, ['type']), ref('ApiError')] },
+      ],
+      discriminator: { propertyName: 'type' },
+    },
+    ApiError: object({
+      error: { ...string, description: 'A message for people' },
+      code: { type: 'string', enum: API_ERROR_CODES, description: 'Stable machine-readable code' },
+      stage: { type: 'string', enum: ['parse', 'search', 'llm', 'server'], description: 'Where the request failed' },
+      retryable: { type: 'boolean', description: 'Whether the same request may succeed if sent again' },
+      correlationId: { ...string, description: 'Also sent as X-Correlation-Id; quote it when reporting a problem' },
+      details: string,
+      retryAfter: { ...integer, description: 'Seconds to wait before retrying (429 only)' },
+      fields: { ...arrayOf(ref('FieldError')), description: 'Every invalid field (invalid_request only)' },
+    }, ['error', 'code', 'stage', 'retryable', 'correlationId']),
+    FieldError: object({
+      field: { ...string, description: 'Path to the field, such as conversationContext[2].answer' },
+      message: string,
+    }, ['field', 'message']),
+  };
+}
+
+const errorResponse = (description: string): Schema => ({
+  description,
+  content: { 'application/json': { schema: ref('ApiError') } },
+});
+
+// OpenAPI 3.1 description of /api/v1. Model and provider enums list what this server allows
+export function getOpenApiDocument(serverUrl: string): Schema {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Romnexity API',
+      version: '1.0.0',
+      description: 'Answers questions from web search results, with citations.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKeyHeader: [] }, { bearer: [] }],
+    paths: {
+      '/api/v1/search': {
+        post: {
+          operationId: 'search',
+          summary: 'Search the web and answer a question with citations',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: ref('PublicSearchRequest') } },
+          },
+          responses: {
+            200: {
+              description: 'The answer, or a stream of events when stream is set',
+              headers: {
+                'X-Correlation-Id': { schema: string },
+                'X-Cache': { schema: { type: 'string', enum: ['HIT', 'MISS', 'BYPASS'] } },
+                'X-RateLimit-Remaining': { schema: integer },
+              },
+              content: {
+                'application/json': { schema: ref('SearchResponse') },
+                [STREAM_CONTENT_TYPE.split(';')[0]]: {
+                  schema: ref('SearchStreamEvent'),
+                  description: 'One JSON event per line',
+                },
+              },
+            },
+            400: errorResponse('The request is invalid (invalid_json, invalid_request)'),
+            401: errorResponse('The API key is missing, unknown or revoked'),
+            429: errorResponse('Rate limit or daily quota reached; see Retry-After'),
+            500: errorResponse('The server or a provider is misconfigured'),
+            502: errorResponse('The search or the language model failed'),
+            503: errorResponse('A provider could not be reached or is busy'),
+            504: errorResponse('A provider took too long'),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearer: { type: 'http', scheme: 'bearer' },
+      },
+      schemas: schemas(),
+    },
+  };
+}
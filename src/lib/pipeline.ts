@@ -0,0 +1,169 @@
+import { ConversationMessage, MediaResult, SearchFocus, SearchMode, SearchResponse, SearchResult, SearchStreamEvent } from '@/types';
+import { cacheKey, getCacheConfig, normalizeQuery, readCache, writeCache } from './cache';
+import { extractCitations } from './citations';
+import { listDocuments, searchDocuments } from './documents';
+import { getLlmProvider } from './llm';
+import { getMediaConfig } from './media';
+import { buildAnswerMessages, buildResearchReportMessages } from './prompts';
+import { rewriteQuery } from './queryRewrite';
+import { generateRelatedQuestions } from './relatedQuestions';
+import { runResearch } from './research';
+import { retrieveSourceContext } from './retrieval';
+import { searchQueries, SearchProvider } from './search';
+import { verifyCitations } from './verification';
+
+export interface SearchParams {
+  query: string;
+  providers: SearchProvider[];
+  model: string;
+  focus: SearchFocus;
+  mode: SearchMode;
+  conversationContext?: ConversationMessage[];
+  bypassCache?: boolean;
+  instructions?: string; // from the chat's collection
+  chatId?: string; // the chat's uploaded documents are searched next to the web
+}
+
+// Answers depend on everything that went into the prompt, including the earlier turns
+// and the documents uploaded to the chat
+function answerCacheKey({ query, providers, model, focus, mode, conversationContext, instructions, chatId }: SearchParams): string {
+  return cacheKey('answer', [
+    normalizeQuery(query),
+    focus,
+    mode,
+    model,
+    providers.map(p => p.name).sort(),
+    (conversationContext ?? []).map(msg => [normalizeQuery(msg.query), msg.answer]),
+    instructions?.trim() ?? '',
+    chatId ? listDocuments(chatId).map(doc => doc.id) : [],
+  ]);
+}
+
+// Replay a cached answer through the same events a fresh one produces
+function replayCached(response: SearchResponse, emit: (event: SearchStreamEvent) => void) {
+  emit({ type: 'sources', query: response.query, sources: response.sources, media: response.media, searchQueries: response.searchQueries });
+  emit({ type: 'delta', text: response.answer });
+  emit({ type: 'citations', citations: response.citations, claims: response.claims });
+  emit({ type: 'done', response });
+}
+
+// Run a search end to end. Events are emitted as each stage completes (sources first,
+// then answer deltas, then citations) so the same pipeline serves both the streaming
+// and the single-JSON response
+export async function runSearch(
+  params: SearchParams,
+  emit: (event: SearchStreamEvent) => void = () => {}
+): Promise<SearchResponse> {
+  const { query, providers, model, focus, mode, conversationContext, bypassCache = false, instructions, chatId } = params;
+
+  const { answerTtlSeconds } = getCacheConfig();
+  const key = answerCacheKey(params);
+  if (!bypassCache && answerTtlSeconds > 0) {
+    const cached = readCache<SearchResponse>(key);
+    if (cached) {
+      console.log(`Serving cached answer (${cached.ageSeconds}s old) for:`, query);
+      const response = { ...cached.value, query: query.trim(), cache: { hit: true, ageSeconds: cached.ageSeconds } };
+      replayCached(response, emit);
+      return response;
+    }
+  }
+
+  let sources: SearchResult[];
+  let media: MediaResult[] | undefined;
+  let sourceContexts: string[];
+  let research: SearchResponse['research'];
+  let queries: string[] | undefined;
+
+  // Step 1: Gather sources, either with one search or a multi-step research run.
+  // Passages from the chat's uploaded documents come first, numbered like web results
+  if (mode === 'research') {
+    const result = await runResearch({
+      query,
+      providers,
+      model,
+      focus,
+      conversationContext,
+      bypassCache,
+      onProgress: progress => emit({ type: 'progress', progress }),
+    });
+    const documentSources = chatId ? searchDocuments(chatId, query) : [];
+    sources = [...documentSources, ...result.sources];
+    sourceContexts = [...documentSources.map(source => source.content), ...result.sourceContexts];
+    research = { subQuestions: result.subQuestions, rounds: result.rounds, sourcesRead: sources.length };
+    emit({ type: 'sources', query: query.trim(), sources });
+    emit({ type: 'progress', progress: { stage: 'writing', totalSources: sources.length } });
+  } else {
+    // Follow-ups are searched as standalone queries built from the conversation
+    queries = await rewriteQuery(query, conversationContext, model);
+    const documentSources = chatId ? searchDocuments(chatId, queries.join(' ')) : [];
+    const found = await searchQueries(queries, providers, focus, { bypassCache, maxMedia: getMediaConfig().maxResults });
+    const webSources = found.results;
+    sources = [...documentSources, ...webSources];
+    media = found.media?.length ? found.media : undefined;
+    emit({ type: 'sources', query: query.trim(), sources, media, searchQueries: queries });
+
+    // Fetch the top pages and pick their most relevant passages; document passages are already text
+    sourceContexts = [
+      ...documentSources.map(source => source.content),
+      ...await retrieveSourceContext(query, webSources),
+    ];
+  }
+
+  // Step 2: Generate AI response with citations and conversation context
+  console.log(`Generating ${mode === 'research' ? 'research report' : 'AI response'} with ${model}...`);
+
+  const completion = getLlmProvider().stream({
+    model,
+    messages: mode === 'research'
+      ? buildResearchReportMessages(query, sources, research?.subQuestions ?? [], { conversationContext, sourceContexts, focus, instructions })
+      : buildAnswerMessages(query, sources, { conversationContext, sourceContexts, focus, instructions }),
+    maxTokens: mode === 'research' ? 2500 : 1000,
+    temperature: 0.3, // Lower temperature for more factual responses
+  });
+
+  let answer = '';
+  for await (const text of completion) {
+    answer += text;
+    emit({ type: 'delta', text });
+  }
+
+  const generated = answer.length > 0;
+  if (!generated) {
+    answer = 'Unable to generate response';
+    emit({ type: 'delta', text: answer });
+  }
+
+  // Step 3: Extract citations and check each cited sentence against its source,
+  // suggesting follow-up questions from the finished answer in the meantime
+  const related = generateRelatedQuestions(query, answer, sources, model);
+  const { citations, claims } = await verifyCitations(
+    answer,
+    sources,
+    extractCitations(answer, sources),
+    { sourceContexts, model }
+  );
+  emit({ type: 'citations', citations, claims });
+  const relatedQuestions = await related;
+
+  // Step 4: Return structured response
+  const response: SearchResponse = {
+    query: query.trim(),
+    answer,
+    sources,
+    media,
+    citations,
+    claims,
+    model,
+    searchQueries: queries,
+    relatedQuestions,
+    research,
+  };
+  if (generated) {
+    writeCache(key, response, answerTtlSeconds);
+  }
+
+  response.cache = { hit: false, ageSeconds: 0, bypassed: bypassCache || undefined };
+  emit({ type: 'done', response });
+
+  return response;
+}
@@ -0,0 +1,231 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { ConversationMessage, SearchFocus, SearchResult } from '@/types';
+import { FOCUS_MODES } from './focus';
+
+export interface AnswerPromptOptions {
+  conversationContext?: ConversationMessage[];
+  // Text to show for each source instead of its search snippet (e.g. retrieved page passages)
+  sourceContexts?: string[];
+  focus?: SearchFocus;
+  // Standing instructions from the chat's collection
+  instructions?: string;
+}
+
+function collectionInstructions(instructions?: string): string {
+  return instructions?.trim()
+    ? `\n\nThe user gave these instructions for this collection of chats. Follow them unless they conflict with citing sources:\n${instructions.trim()}`
+    : '';
+}
+
+// Tells the model which sources are not from the web
+function sourceOrigin(result: SearchResult): string {
+  if (result.document) return ' (document uploaded by the user)';
+  if (result.knowledge) return ' (from the knowledge base)';
+  return '';
+}
+
+// Build the system + user messages for the cited answer completion
+export function buildAnswerMessages(
+  query: string,
+  sources: SearchResult[],
+  { conversationContext, sourceContexts, focus = 'all', instructions }: AnswerPromptOptions = {}
+): ChatCompletionMessageParam[] {
+  const hasContext = !!conversationContext && conversationContext.length > 0;
+  const focusInstructions = FOCUS_MODES[focus].instructions;
+
+  let prompt = `Based on the following search results, provide a comprehensive answer to the user's question: "${query}"`;
+
+  // Add conversation context if provided
+  if (hasContext) {
+    prompt += `\n\nPrevious conversation context:`;
+    conversationContext.forEach((msg, index) => {
+      prompt += `\n${index + 1}. User asked: "${msg.query}"\n   Previous answer: ${msg.answer.substring(0, 200)}...`;
+    });
+    prompt += `\n\nIMPORTANT: Use this conversation context to provide a more relevant and connected answer. Reference previous topics when relevant, but focus on the new question: "${query}"`;
+  }
+
+  prompt += `\n\nSearch Results:
+${sources.map((result, index) => 
+  `[${index + 1}] ${result.title}${sourceOrigin(result)}
+${sourceContexts?.[index] ?? result.content}
+---`
+).join('\n')}
+
+Instructions:
+1. ${hasContext ? 
+   'Consider the previous conversation context and build upon it naturally' : 
+   'Synthesize information from multiple sources to provide a complete answer'}
+2. Use inline citations like [1], [2], [3] referring to the source numbers above
+3. Be comprehensive but concise (aim for 2-4 paragraphs)
+4. If sources provide conflicting information, acknowledge the disagreement
+5. Focus on factual accuracy and cite specific claims
+6. ${hasContext ? 
+   'Connect your answer to the previous conversation when relevant, showing continuity' : 
+   'Write in a clear, informative tone similar to Perplexity.ai'}${focusInstructions ? `
+7. ${FOCUS_MODES[focus].label} focus: ${focusInstructions}` : ''}${collectionInstructions(instructions)}
+
+Answer:`;
+
+  return [
+    {
+      role: 'system',
+      content: hasContext ? 
+        'You are Romnexity, a helpful research assistant that provides accurate, well-cited answers based on search results. You maintain conversation continuity and can reference previous discussions when relevant. Always use inline citations and synthesize information from multiple sources.' :
+        'You are Romnexity, a helpful research assistant that provides accurate, well-cited answers based on search results. Always use inline citations and synthesize information from multiple sources.'
+    },
+    {
+      role: 'user',
+      content: prompt
+    }
+  ];
+}
+
+// Turn a follow-up that leans on earlier turns ("tell me more", "pros and cons?") into standalone search queries
+export function buildQueryRewriteMessages(
+  query: string,
+  conversationContext: ConversationMessage[]
+): ChatCompletionMessageParam[] {
+  return [
+    {
+      role: 'system',
+      content: 'You are Romnexity, a search assistant. You rewrite follow-up questions into web search queries. You only answer with JSON.'
+    },
+    {
+      role: 'user',
+      content: `Earlier in this conversation:
+${conversationContext.map((msg, index) => `${index + 1}. User asked: "${msg.query}"
+   Answer: ${msg.answer.substring(0, 200)}...`).join('\n')}
+
+Follow-up: "${query}"
+
+Rewrite the follow-up into 1 to 3 self-contained web search queries that name the subject explicitly, so they make sense without the conversation. Use one query unless the follow-up asks about several distinct things. If the follow-up is already self-contained, return it unchanged.
+
+Respond with only a JSON array of strings.`
+    }
+  ];
+}
+
+// Ask for follow-up questions a reader of this answer would plausibly ask next
+export function buildRelatedQuestionsMessages(
+  query: string,
+  answer: string,
+  sources: SearchResult[]
+): ChatCompletionMessageParam[] {
+  return [
+    {
+      role: 'system',
+      content: 'You are Romnexity, a helpful research assistant. You suggest natural follow-up questions. You only answer with JSON.'
+    },
+    {
+      role: 'user',
+      content: `Question: "${query}"
+
+Answer:
+${answer.substring(0, 2000)}
+
+Sources:
+${sources.map((source, index) => `[${index + 1}] ${source.title}`).join('\n')}
+
+Suggest 3 short follow-up questions the user might ask next. Each should explore something the answer or sources mention but do not fully cover, name its subject explicitly, and not repeat the original question.
+
+Respond with only a JSON array of strings.`
+    }
+  ];
+}
+
+// Ask for the sub-questions a research run should investigate
+export function buildResearchPlanMessages(
+  query: string,
+  conversationContext?: ConversationMessage[]
+): ChatCompletionMessageParam[] {
+  const context = conversationContext && conversationContext.length > 0
+    ? `\n\nEarlier in this conversation the user asked:\n${conversationContext.map(msg => `- ${msg.query}`).join('\n')}`
+    : '';
+
+  return [
+    {
+      role: 'system',
+      content: 'You are Romnexity, a research planner. You break hard questions into focused web searches. You only answer with JSON.'
+    },
+    {
+      role: 'user',
+      content: `Break this question into 3 to 5 self-contained sub-questions that together cover everything needed for a thorough answer. Each sub-question should work as a standalone web search query.${context}
+
+Question: "${query}"
+
+Respond with only a JSON array of strings.`
+    }
+  ];
+}
+
+// Ask which gaps remain after a research round; an empty array means coverage is sufficient
+export function buildResearchGapMessages(
+  query: string,
+  subQuestions: string[],
+  sources: SearchResult[]
+): ChatCompletionMessageParam[] {
+  return [
+    {
+      role: 'system',
+      content: 'You are Romnexity, a research planner. You review what has been found and decide what is still missing. You only answer with JSON.'
+    },
+    {
+      role: 'user',
+      content: `Question: "${query}"
+
+Sub-questions already searched:
+${subQuestions.map(q => `- ${q}`).join('\n')}
+
+Sources found so far:
+${sources.map((source, index) => `[${index + 1}] ${source.title}: ${source.content.substring(0, 200)}`).join('\n')}
+
+If important aspects of the question are not covered by these sources, list up to 3 additional search queries that would fill the gaps. If coverage is already sufficient, return an empty array.
+
+Respond with only a JSON array of strings.`
+    }
+  ];
+}
+
+// Long-form cited report over the combined research sources
+export function buildResearchReportMessages(
+  query: string,
+  sources: SearchResult[],
+  subQuestions: string[],
+  { conversationContext, sourceContexts, focus = 'all', instructions }: AnswerPromptOptions = {}
+): ChatCompletionMessageParam[] {
+  const focusInstructions = FOCUS_MODES[focus].instructions;
+  const context = conversationContext && conversationContext.length > 0
+    ? `\n\nPrevious conversation context:\n${conversationContext.map((msg, index) => `${index + 1}. User asked: "${msg.query}"`).join('\n')}`
+    : '';
+
+  return [
+    {
+      role: 'system',
+      content: 'You are Romnexity, a research analyst who writes thorough, well-structured reports. Every factual claim carries an inline citation to the numbered sources.'
+    },
+    {
+      role: 'user',
+      content: `Write a research report answering: "${query}"${context}
+
+The research covered these sub-questions:
+${subQuestions.map(q => `- ${q}`).join('\n')}
+
+Sources:
+${sources.map((result, index) => 
+  `[${index + 1}] ${result.title}${sourceOrigin(result)}
+${sourceContexts?.[index] ?? result.content}
+---`
+).join('\n')}
+
+Instructions:
+1. Start with a short summary paragraph that answers the question directly
+2. Organize the body into Markdown sections (## headings) that follow the sub-questions
+3. Use inline citations like [1], [2], [3] referring to the source numbers above, on every factual claim
+4. Compare sources where they disagree and say which evidence is stronger
+5. End with a "## Open questions" section noting what the sources could not settle${focusInstructions ? `
+6. ${FOCUS_MODES[focus].label} focus: ${focusInstructions}` : ''}${collectionInstructions(instructions)}
+
+Report:`
+    }
+  ];
+}
@@ -0,0 +1,31 @@
+import { ConversationMessage } from '@/types';
+import { extractJsonArray, getLlmProvider } from './llm';
+import { buildQueryRewriteMessages } from './prompts';
+
+// Follow-ups only carry their meaning together with the conversation, so search with
+// rewritten standalone queries; the first turn of a chat is searched as typed
+export async function rewriteQuery(
+  query: string,
+  conversationContext: ConversationMessage[] | undefined,
+  model: string
+): Promise<string[]> {
+  const original = query.trim();
+  if (!conversationContext || conversationContext.length === 0) return [original];
+
+  try {
+    const output = await getLlmProvider().complete({
+      model,
+      messages: buildQueryRewriteMessages(original, conversationContext.slice(-3)),
+      maxTokens: 200,
+      temperature: 0,
+    });
+    const queries = extractJsonArray<unknown>(output)
+      .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+      .map(item => item.trim())
+      .slice(0, 3);
+    return queries.length > 0 ? queries : [original];
+  } catch (error) {
+    console.warn('Query rewriting failed, searching the follow-up as typed:', error);
+    return [original];
+  }
+}
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { consumeRateLimit, identifyClient } from './rateLimit';
+
+process.env.DATABASE_PATH = ':memory:';
+
+const START = Date.UTC(2026, 0, 1, 12);
+
+test('a bucket allows its burst, then refills over time', () => {
+  process.env.RATE_LIMIT_PER_MINUTE = '2';
+  process.env.RATE_LIMIT_DAILY_QUOTA = '0';
+  const client = { kind: 'user' as const, id: 'bucket' };
+
+  assert.equal(consumeRateLimit(client, { now: START }).allowed, true);
+  assert.equal(consumeRateLimit(client, { now: START }).allowed, true);
+  const limited = consumeRateLimit(client, { now: START });
+  assert.equal(limited.allowed, false);
+  assert.equal(limited.reason, 'rate');
+  assert.equal(limited.retryAfterSeconds, 30);
+  assert.equal(consumeRateLimit(client, { now: START + 30_000 }).allowed, true);
+});
+
+test('the daily quota runs out and resets the next UTC day', () => {
+  process.env.RATE_LIMIT_PER_MINUTE = '0';
+  process.env.RATE_LIMIT_DAILY_QUOTA = '2';
+  const client = { kind: 'user' as const, id: 'quota' };
+
+  consumeRateLimit(client, { now: START });
+  consumeRateLimit(client, { now: START });
+  const limited = consumeRateLimit(client, { now: START });
+  assert.equal(limited.reason, 'quota');
+  assert.equal(limited.headers['X-RateLimit-Daily-Remaining'], '0');
+  assert.equal(consumeRateLimit(client, { now: START + 24 * 3600_000 }).allowed, true);
+});
+
+test('titles have their own bucket but spend the same daily quota', () => {
+  process.env.RATE_LIMIT_PER_MINUTE = '1';
+  process.env.RATE_LIMIT_TITLE_PER_MINUTE = '5';
+  process.env.RATE_LIMIT_DAILY_QUOTA = '3';
+  const client = { kind: 'user' as const, id: 'title' };
+
+  assert.equal(consumeRateLimit(client, { now: START }).allowed, true);
+  assert.equal(consumeRateLimit(client, { now: START }).reason, 'rate');
+  assert.equal(consumeRateLimit(client, { scope: 'title', now: START }).allowed, true);
+  assert.equal(consumeRateLimit(client, { scope: 'title', now: START }).allowed, true);
+  assert.equal(consumeRateLimit(client, { scope: 'title', now: START }).reason, 'quota');
+  assert.equal(consumeRateLimit(client, { now: START + 60_000 }).reason, 'quota');
+});
+
+test('forwarded addresses are only trusted behind a configured proxy', () => {
+  const headers = new Headers({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.2', 'x-real-ip': '6.6.6.6' });
+
+  delete process.env.TRUST_PROXY;
+  assert.deepEqual(identifyClient(headers), { kind: 'ip', id: 'direct' });
+  process.env.TRUST_PROXY = 'true';
+  assert.deepEqual(identifyClient(headers), { kind: 'ip', id: '10.0.0.2' });
+  process.env.TRUST_PROXY = '2';
+  assert.deepEqual(identifyClient(headers), { kind: 'ip', id: '1.2.3.4' });
+  delete process.env.TRUST_PROXY;
+});
+
+test('signed-in users are identified by account, not address', () => {
+  assert.deepEqual(identifyClient(new Headers({ 'x-forwarded-for': '1.2.3.4' }), 'user_1'), { kind: 'user', id: 'user_1' });
+});
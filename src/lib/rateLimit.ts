@@ -0,0 +1,194 @@
+import { createHash } from 'crypto';
+import { isValidApiKey, readApiKey } from './apiKeys';
+import { getDb } from './db';
+
+export type ClientKind = 'ip' | 'user' | 'key';
+
+// What a request is spent on. Chat titles have their own per-minute bucket, so naming a new
+// chat does not hold up the next search, but they count toward the same daily quota
+export type RateLimitScope = 'search' | 'title';
+
+export interface ClientIdentity {
+  kind: ClientKind;
+  id: string;
+}
+
+export interface RateLimitConfig {
+  perMinute: number;
+  burst: number;
+  dailyQuota: number;
+}
+
+// Limits per client kind; 0 turns a limit off. Signed-in users share the per-IP settings;
+// API-key clients get their own, usually higher, limits
+export function getRateLimitConfig(kind: ClientKind, scope: RateLimitScope = 'search'): RateLimitConfig {
+  const prefix = kind === 'key' ? 'RATE_LIMIT_KEY_' : 'RATE_LIMIT_';
+  const dailyQuota = parseLimit(process.env[`${prefix}DAILY_QUOTA`], kind === 'key' ? 5000 : 200);
+  if (scope === 'title') {
+    const perMinute = parseLimit(process.env.RATE_LIMIT_TITLE_PER_MINUTE, 10);
+    return { perMinute, burst: perMinute, dailyQuota };
+  }
+  const perMinute = parseLimit(process.env[`${prefix}PER_MINUTE`], kind === 'key' ? 60 : 10);
+  return { perMinute, burst: parseLimit(process.env[`${prefix}BURST`], perMinute), dailyQuota };
+}
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? Math.floor(limit) : fallback;
+}
+
+// TRUST_PROXY is the number of proxies in front of the app ("true" means one). Each appends the
+// address it received the request from to X-Forwarded-For, so only the last that many entries
+// are trustworthy; anything before them came from the client
+function trustedProxyHops(): number {
+  const value = process.env.TRUST_PROXY?.trim();
+  if (value === 'true') return 1;
+  const hops = Number(value);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+// The client's address as seen by the outermost trusted proxy. Without TRUST_PROXY the headers
+// are the client's own words, and route handlers never see the connection address (Next only
+// writes it into X-Forwarded-For when the client sent none). So every caller limited by IP
+// shares the one 'direct' bucket and quota rather than picking a fresh one per request
+function clientAddress(headers: Headers): string {
+  const hops = trustedProxyHops();
+  if (hops === 0) return 'direct';
+  const forwarded = (headers.get('x-forwarded-for') ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  return forwarded[forwarded.length - hops] ?? 'unknown';
+}
+
+// Identify the caller by API key (X-API-Key or a bearer token) when it is valid, then by
+// the signed-in user, otherwise by IP
+export function identifyClient(headers: Headers, userId?: string): ClientIdentity {
+  const apiKey = readApiKey(headers);
+  if (apiKey && isValidApiKey(apiKey)) {
+    // Keys are only kept in memory and the usage table as hashes
+    return { kind: 'key', id: createHash('sha256').update(apiKey).digest('hex').slice(0, 32) };
+  }
+  if (userId) {
+    return { kind: 'user', id: userId };
+  }
+
+  return { kind: 'ip', id: clientAddress(headers) };
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  reason?: 'rate' | 'quota';
+  retryAfterSeconds?: number;
+  headers: Record<string, string>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Token buckets live in memory; each server process limits independently
+const buckets = new Map<string, Bucket>();
+const MAX_BUCKETS = 10000;
+
+function refill(bucket: Bucket, config: RateLimitConfig, now: number): Bucket {
+  const perMs = config.perMinute / 60000;
+  return {
+    tokens: Math.min(config.burst, bucket.tokens + (now - bucket.updatedAt) * perMs),
+    updatedAt: now,
+  };
+}
+
+// The daily quota is counted per client in the usage table, across scopes
+function quotaKey(client: ClientIdentity): string {
+  return `${client.kind}:${client.id}`;
+}
+
+// Search buckets share the quota key; other scopes are prefixed
+function bucketKey(client: ClientIdentity, scope: RateLimitScope): string {
+  return scope === 'search' ? quotaKey(client) : `${scope}:${quotaKey(client)}`;
+}
+
+function configForKey(key: string): RateLimitConfig {
+  const [first, second] = key.split(':');
+  return first === 'title' ? getRateLimitConfig(second as ClientKind, 'title') : getRateLimitConfig(first as ClientKind);
+}
+
+// Forget buckets that have refilled completely; they behave the same as new ones
+function pruneBuckets(now: number) {
+  if (buckets.size < MAX_BUCKETS) return;
+  for (const [key, bucket] of buckets) {
+    const config = configForKey(key);
+    if (refill(bucket, config, now).tokens >= config.burst) buckets.delete(key);
+  }
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(now: number): number {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((next.getTime() - now) / 1000);
+}
+
+// Take one request from the client's bucket and daily quota, or report when to retry
+export function consumeRateLimit(
+  client: ClientIdentity,
+  { scope = 'search', now = Date.now() }: { scope?: RateLimitScope; now?: number } = {}
+): RateLimitResult {
+  const config = getRateLimitConfig(client.kind, scope);
+  const clientKey = bucketKey(client, scope);
+  const headers: Record<string, string> = {};
+
+  let bucket: Bucket | undefined;
+  if (config.perMinute > 0 && config.burst > 0) {
+    pruneBuckets(now);
+    bucket = refill(buckets.get(clientKey) ?? { tokens: config.burst, updatedAt: now }, config, now);
+    const refillMs = 60000 / config.perMinute;
+
+    headers['X-RateLimit-Limit'] = String(config.burst);
+    headers['X-RateLimit-Remaining'] = String(Math.max(0, Math.floor(bucket.tokens) - 1));
+    headers['X-RateLimit-Reset'] = String(Math.ceil((now + (config.burst - bucket.tokens + 1) * refillMs) / 1000));
+
+    if (bucket.tokens < 1) {
+      buckets.set(clientKey, bucket);
+      headers['X-RateLimit-Remaining'] = '0';
+      headers['X-RateLimit-Reset'] = String(Math.ceil((now + (config.burst - bucket.tokens) * refillMs) / 1000));
+      const retryAfterSeconds = Math.max(1, Math.ceil((1 - bucket.tokens) * refillMs / 1000));
+      return { allowed: false, reason: 'rate', retryAfterSeconds, headers };
+    }
+  }
+
+  if (config.dailyQuota > 0) {
+    const day = utcDay(now);
+    const row = getDb()
+      .prepare('SELECT count FROM usage WHERE client = ? AND day = ?')
+      .get(quotaKey(client), day) as { count: number } | undefined;
+    const used = row?.count ?? 0;
+    const resetSeconds = secondsUntilNextUtcDay(now);
+
+    headers['X-RateLimit-Daily-Limit'] = String(config.dailyQuota);
+    headers['X-RateLimit-Daily-Remaining'] = String(Math.max(0, config.dailyQuota - used - 1));
+    headers['X-RateLimit-Daily-Reset'] = String(Math.ceil(now / 1000) + resetSeconds);
+
+    if (used >= config.dailyQuota) {
+      headers['X-RateLimit-Daily-Remaining'] = '0';
+      return { allowed: false, reason: 'quota', retryAfterSeconds: resetSeconds, headers };
+    }
+
+    // Earlier days no longer count, so drop them when a client starts a new day
+    if (!row) {
+      getDb().prepare('DELETE FROM usage WHERE day < ?').run(day);
+    }
+    getDb().prepare(
+      `INSERT INTO usage (client, day, count) VALUES (?, ?, 1)
+       ON CONFLICT (client, day) DO UPDATE SET count = count + 1`
+    ).run(quotaKey(client), day);
+  }
+
+  if (bucket) {
+    buckets.set(clientKey, { ...bucket, tokens: bucket.tokens - 1 });
+  }
+  return { allowed: true, headers };
+}
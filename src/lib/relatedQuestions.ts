@@ -0,0 +1,29 @@
+import { SearchResult } from '@/types';
+import { extractJsonArray, getLlmProvider } from './llm';
+import { buildRelatedQuestionsMessages } from './prompts';
+
+// Suggestions are optional, so any failure just leaves the list empty
+export async function generateRelatedQuestions(
+  query: string,
+  answer: string,
+  sources: SearchResult[],
+  model: string
+): Promise<string[]> {
+  try {
+    const output = await getLlmProvider().complete({
+      model,
+      messages: buildRelatedQuestionsMessages(query, answer, sources),
+      maxTokens: 200,
+      temperature: 0.5,
+    });
+    const original = query.trim().toLowerCase();
+    return extractJsonArray<unknown>(output)
+      .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+      .map(item => item.trim())
+      .filter(question => question.toLowerCase() !== original)
+      .slice(0, 3);
+  } catch (error) {
+    console.warn('Related question generation failed:', error);
+    return [];
+  }
+}
@@ -0,0 +1,134 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { ConversationMessage, ResearchProgress, SearchFocus, SearchResult } from '@/types';
+import { extractJsonArray, getLlmProvider } from './llm';
+import { buildResearchGapMessages, buildResearchPlanMessages } from './prompts';
+import { getRetrievalConfig, retrieveSourceContext } from './retrieval';
+import { searchWeb, SearchProvider, urlKey } from './search';
+
+export interface ResearchConfig {
+  maxRounds: number;
+  maxSources: number;
+  resultsPerQuery: number;
+  tokenBudget: number;
+}
+
+export function getResearchConfig(): ResearchConfig {
+  return {
+    maxRounds: Number(process.env.RESEARCH_MAX_ROUNDS) || 2,
+    maxSources: Number(process.env.RESEARCH_MAX_SOURCES) || 16,
+    resultsPerQuery: Number(process.env.RESEARCH_RESULTS_PER_QUERY) || 5,
+    tokenBudget: Number(process.env.RESEARCH_TOKEN_BUDGET) || 6000,
+  };
+}
+
+export interface ResearchResult {
+  subQuestions: string[];
+  rounds: number;
+  sources: SearchResult[];
+  sourceContexts: string[];
+}
+
+interface ResearchOptions {
+  query: string;
+  providers: SearchProvider[];
+  model: string;
+  focus: SearchFocus;
+  conversationContext?: ConversationMessage[];
+  bypassCache?: boolean;
+  onProgress?: (progress: ResearchProgress) => void;
+}
+
+// Planner prompts answer with a JSON array of search queries
+async function askForQueries(model: string, messages: ChatCompletionMessageParam[]): Promise<string[]> {
+  const output = await getLlmProvider().complete({ model, messages, maxTokens: 300, temperature: 0.2 });
+  return extractJsonArray<unknown>(output)
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map(item => item.trim())
+    .slice(0, 5);
+}
+
+// Plan sub-questions, search and read them in parallel, optionally run further rounds
+// to fill gaps, and return the de-duplicated sources with their prompt text
+export async function runResearch({
+  query,
+  providers,
+  model,
+  focus,
+  conversationContext,
+  bypassCache = false,
+  onProgress = () => {},
+}: ResearchOptions): Promise<ResearchResult> {
+  const config = getResearchConfig();
+  const retrievalConfig = getRetrievalConfig();
+
+  const sources: SearchResult[] = [];
+  const sourceContexts: string[] = [];
+  const seen = new Set<string>();
+  const subQuestions: string[] = [];
+
+  onProgress({ stage: 'planning' });
+  let pending: string[];
+  try {
+    pending = await askForQueries(model, buildResearchPlanMessages(query, conversationContext));
+  } catch (error) {
+    console.warn('Research planning failed, researching the question directly:', error);
+    pending = [];
+  }
+  if (pending.length === 0) pending = [query];
+
+  let round = 0;
+  while (pending.length > 0 && round < config.maxRounds && sources.length < config.maxSources) {
+    round += 1;
+    subQuestions.push(...pending);
+    onProgress({ stage: 'planned', round, subQuestions: pending });
+
+    // Spread the passage budget over every query in the round
+    const perQueryConfig = {
+      ...retrievalConfig,
+      maxPages: Math.min(retrievalConfig.maxPages, config.resultsPerQuery),
+      tokenBudget: Math.floor(config.tokenBudget / (config.maxRounds * pending.length)),
+    };
+
+    const findings = await Promise.all(pending.map(async subQuestion => {
+      onProgress({ stage: 'searching', round, query: subQuestion });
+      try {
+        const { results } = await searchWeb(subQuestion, providers, focus, { maxResults: config.resultsPerQuery, bypassCache });
+        const contexts = await retrieveSourceContext(subQuestion, results, perQueryConfig);
+        return { subQuestion, results, contexts };
+      } catch (error) {
+        console.warn(`Research query failed: ${subQuestion}`, error);
+        return { subQuestion, results: [], contexts: [] };
+      }
+    }));
+
+    for (const { subQuestion, results, contexts } of findings) {
+      let newSources = 0;
+      results.forEach((result, index) => {
+        const key = urlKey(result.url);
+        if (seen.has(key) || sources.length >= config.maxSources) return;
+        seen.add(key);
+        sources.push(result);
+        sourceContexts.push(contexts[index] ?? result.content);
+        newSources += 1;
+      });
+      onProgress({ stage: 'read', round, query: subQuestion, newSources, totalSources: sources.length });
+    }
+
+    if (round >= config.maxRounds || sources.length >= config.maxSources) break;
+
+    onProgress({ stage: 'reviewing', round });
+    try {
+      pending = (await askForQueries(model, buildResearchGapMessages(query, subQuestions, sources)))
+        .filter(next => !subQuestions.includes(next));
+    } catch (error) {
+      console.warn('Research gap review failed, writing with current sources:', error);
+      pending = [];
+    }
+  }
+
+  if (sources.length === 0) {
+    throw new Error('Research found no sources');
+  }
+
+  return { subQuestions, rounds: round, sources, sourceContexts };
+}
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { decodeEntities, extractReadableText } from './extract';
+
+test('named and numeric entities are decoded', () => {
+  assert.equal(decodeEntities('Fish &amp; chips &mdash; &#169; &#x263A;'), 'Fish & chips — © ☺');
+});
+
+test('out-of-range numbers and lone surrogates are left as written', () => {
+  assert.equal(decodeEntities('&#0; &#x110000; &#xD800; &#99999999999;'), '&#0; &#x110000; &#xD800; &#99999999999;');
+});
+
+test('unknown names, including inherited property names, are left as written', () => {
+  assert.equal(decodeEntities('&bogus; &constructor; &toString;'), '&bogus; &constructor; &toString;');
+});
+
+test('scripts and navigation are dropped from the readable text', () => {
+  const { title, text } = extractReadableText('<title>Page</title><nav>Menu</nav><script>x()</script><p>Body text that is long enough to count as a paragraph.</p>');
+  assert.equal(title, 'Page');
+  assert.equal(text.includes('Menu') || text.includes('x()'), false);
+  assert.equal(text.includes('Body text'), true);
+});
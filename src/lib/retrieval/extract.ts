@@ -0,0 +1,65 @@
+// Lightweight readable-text extraction: no DOM, just enough structure to drop page
+// chrome (scripts, navigation, footers) and keep paragraph boundaries
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Out-of-range values and lone surrogates would throw or produce broken text
+      const valid = value >= 1 && value <= 0x10ffff && !(value >= 0xd800 && value <= 0xdfff);
+      return valid ? String.fromCodePoint(value) : entity;
+    }
+    const name = code.toLowerCase();
+    return Object.hasOwn(NAMED_ENTITIES, name) ? NAMED_ENTITIES[name] : entity;
+  });
+}
+
+// Elements that never hold article text
+const NOISE_ELEMENTS = ['script', 'style', 'noscript', 'svg', 'template', 'iframe', 'nav', 'header', 'footer', 'aside', 'form'];
+
+function stripElements(html: string, tags: string[]): string {
+  return tags.reduce(
+    (result, tag) => result.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' '),
+    html
+  );
+}
+
+// Prefer the <article> or <main> region when the page marks one up
+function mainRegion(html: string): string {
+  for (const tag of ['article', 'main']) {
+    const matches = [...html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi'))];
+    if (matches.length > 0) {
+      const longest = matches.reduce((best, match) => match[1].length > best.length ? match[1] : best, '');
+      if (longest.length > 500) return longest;
+    }
+  }
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+  return body ? body[1] : html;
+}
+
+export function extractReadableText(html: string): { title: string; text: string } {
+  const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? decodeEntities(titleMatch[1]).replace(/\s+/g, ' ').trim() : '';
+
+  const region = mainRegion(stripElements(html.replace(/<!--[\s\S]*?-->/g, ' '), NOISE_ELEMENTS));
+
+  const text = decodeEntities(
+    region
+      // Block-level boundaries become paragraph breaks
+      .replace(/<\/?(p|div|section|article|main|h[1-6]|li|ul|ol|table|tr|blockquote|pre|dd|dt|figcaption)\b[^>]*>/gi, '\n\n')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    // Short fragments are usually leftover menus, buttons and captions
+    .filter(paragraph => paragraph.split(' ').length >= 8)
+    .join('\n\n');
+
+  return { title, text };
+}
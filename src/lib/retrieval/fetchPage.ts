@@ -0,0 +1,96 @@
+import { isAllowedByRobots, USER_AGENT } from './robots';
+
+export interface FetchLimits {
+  defaultTimeoutMs: number;
+  hostTimeoutsMs: Record<string, number>;
+  maxBytes: number;
+}
+
+function timeoutFor(host: string, limits: FetchLimits): number {
+  const bare = host.replace(/^www\./, '');
+  const configured = [host, bare].find(name => Object.hasOwn(limits.hostTimeoutsMs, name));
+  return configured ? limits.hostTimeoutsMs[configured] : limits.defaultTimeoutMs;
+}
+
+// The parts of a response readLimitedBytes uses, so responses from undici's fetch are accepted too
+export interface LimitedResponse {
+  headers: { get(name: string): string | null };
+  body: {
+    getReader(): {
+      read(): Promise<{ done: true; value?: unknown } | { done: false; value: Uint8Array }>;
+      cancel(): Promise<void>;
+    };
+  } | null;
+}
+
+// Read at most maxBytes of the body; oversized responses are rejected rather than truncated
+export async function readLimitedBytes(response: LimitedResponse, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared && declared > maxBytes) {
+    throw new Error(`Response is ${declared} bytes, over the ${maxBytes} byte limit`);
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Response exceeded the ${maxBytes} byte limit`);
+    }
+    chunks.push(value);
+  }
+
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer;
+}
+
+const PAGE_CONTENT_TYPES = /text\/html|application\/xhtml|text\/plain/;
+
+// Fetch an HTML or plain-text page, honoring robots.txt, the host's timeout and the size limit.
+// accept widens the content types allowed, e.g. to XML for sitemaps
+export async function fetchPage(
+  rawUrl: string,
+  limits: FetchLimits,
+  accept: RegExp = PAGE_CONTENT_TYPES
+): Promise<{ body: string; contentType: string }> {
+  const url = new URL(rawUrl);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+
+  const timeoutMs = timeoutFor(url.hostname, limits);
+  if (!(await isAllowedByRobots(url, timeoutMs))) {
+    throw new Error('Disallowed by robots.txt');
+  }
+
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9',
+    },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!accept.test(contentType)) {
+    throw new Error(`Unsupported content type ${contentType}`);
+  }
+
+  return { body: new TextDecoder().decode(await readLimitedBytes(response, limits.maxBytes)), contentType };
+}
@@ -0,0 +1,96 @@
+import { SearchResult } from '@/types';
+import { extractReadableText } from './extract';
+import { fetchPage, FetchLimits } from './fetchPage';
+import { estimateTokens, rankPassages, splitPassages } from './passages';
+
+export interface RetrievalConfig extends FetchLimits {
+  enabled: boolean;
+  maxPages: number;
+  tokenBudget: number;
+}
+
+// "example.com:2000,slow.org:8000" -> { 'example.com': 2000, 'slow.org': 8000 }
+function parseHostTimeouts(value: string | undefined): Record<string, number> {
+  const timeouts: Record<string, number> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const [host, ms] = entry.split(':').map(part => part.trim());
+    if (host && Number(ms) > 0) timeouts[host] = Number(ms);
+  }
+  return timeouts;
+}
+
+export function getRetrievalConfig(): RetrievalConfig {
+  return {
+    enabled: process.env.RETRIEVAL_ENABLED !== 'false',
+    maxPages: Number(process.env.RETRIEVAL_MAX_PAGES) || 5,
+    tokenBudget: Number(process.env.RETRIEVAL_TOKEN_BUDGET) || 3000,
+    defaultTimeoutMs: Number(process.env.RETRIEVAL_TIMEOUT_MS) || 4000,
+    hostTimeoutsMs: parseHostTimeouts(process.env.RETRIEVAL_HOST_TIMEOUTS),
+    maxBytes: Number(process.env.RETRIEVAL_MAX_BYTES) || 1_500_000,
+  };
+}
+
+// Fetch the top sources and return the prompt text for each one: the most relevant
+// passages of the full page within the token budget, or the search snippet when the
+// page could not be fetched or had nothing relevant. Knowledge-base results already hold
+// their best indexed passages and keep them
+export async function retrieveSourceContext(
+  query: string,
+  sources: SearchResult[],
+  config: RetrievalConfig = getRetrievalConfig()
+): Promise<string[]> {
+  const snippets = sources.map(source => source.content);
+  if (!config.enabled || sources.length === 0) return snippets;
+
+  const targets = sources
+    .slice(0, config.maxPages)
+    .map((source, sourceIndex) => ({ source, sourceIndex }))
+    .filter(({ source }) => !source.knowledge);
+  const pages = await Promise.allSettled(targets.map(({ source }) => fetchPage(source.url, config)));
+
+  const candidates: { sourceIndex: number; position: number; text: string }[] = [];
+  pages.forEach((page, i) => {
+    const { source, sourceIndex } = targets[i];
+    if (page.status === 'rejected') {
+      console.warn(`Falling back to snippet for ${source.url}:`, page.reason instanceof Error ? page.reason.message : page.reason);
+      return;
+    }
+
+    let text: string;
+    try {
+      text = /text\/plain/.test(page.value.contentType)
+        ? page.value.body
+        : extractReadableText(page.value.body).text;
+    } catch (error) {
+      console.warn(`Falling back to snippet for ${source.url}:`, error instanceof Error ? error.message : error);
+      return;
+    }
+    splitPassages(text).forEach((passage, position) => {
+      candidates.push({ sourceIndex, position, text: passage });
+    });
+  });
+
+  // Spend the budget on the best passages across all pages
+  const selected = new Map<number, { position: number; text: string }[]>();
+  let usedTokens = 0;
+  for (const passage of rankPassages(query, candidates)) {
+    if (passage.score <= 0) break;
+
+    const cost = estimateTokens(passage.text);
+    if (usedTokens + cost > config.tokenBudget) continue;
+
+    usedTokens += cost;
+    selected.set(passage.sourceIndex, [...(selected.get(passage.sourceIndex) ?? []), passage]);
+  }
+
+  return snippets.map((snippet, index) => {
+    const passages = selected.get(index);
+    if (!passages) return snippet;
+
+    // Keep the page's own order so the excerpts read naturally
+    return passages
+      .sort((a, b) => a.position - b.position)
+      .map(passage => passage.text)
+      .join('\n...\n');
+  });
+}
@@ -0,0 +1,67 @@
+// Split page text into overlapping passages and rank them against the query
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'are', 'was', 'what', 'how', 'why', 'when', 'where',
+  'who', 'which', 'does', 'did', 'can', 'from', 'about', 'into', 'than', 'then', 'there', 'their',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 2 && !STOPWORDS.has(term));
+}
+
+// An FTS5 MATCH expression for the query. Any term may match; BM25 then puts passages
+// matching more (and rarer) terms first
+export function toMatchExpression(query: string): string {
+  return [...new Set(tokenize(query))].map(term => `"${term}"`).join(' OR ');
+}
+
+// Rough token estimate (about four characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Fixed word windows; the overlap keeps a sentence that straddles two windows intact in one of them
+export function splitPassages(text: string, wordsPerPassage = 120, overlapWords = 20): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length <= wordsPerPassage) return words.length > 0 ? [words.join(' ')] : [];
+
+  const passages: string[] = [];
+  const step = Math.max(1, wordsPerPassage - overlapWords);
+  for (let start = 0; start < words.length; start += step) {
+    passages.push(words.slice(start, start + wordsPerPassage).join(' '));
+    if (start + wordsPerPassage >= words.length) break;
+  }
+  return passages;
+}
+
+// BM25 over the candidate passages themselves
+export function rankPassages<T extends { text: string }>(query: string, candidates: T[]): (T & { score: number })[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const documents = candidates.map(candidate => tokenize(candidate.text));
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, documents.length);
+
+  const documentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequency.set(term, documents.filter(doc => doc.includes(term)).length);
+  }
+
+  const k1 = 1.2;
+  const b = 0.75;
+
+  return candidates
+    .map((candidate, i) => {
+      const doc = documents[i];
+      const score = queryTerms.reduce((total, term) => {
+        const frequency = doc.filter(token => token === term).length;
+        if (frequency === 0) return total;
+        const df = documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        return total + idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * doc.length / averageLength));
+      }, 0);
+      return { ...candidate, score };
+    })
+    .sort((a, b) => b.score - a.score);
+}
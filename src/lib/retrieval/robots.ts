@@ -0,0 +1,99 @@
+// Minimal robots.txt support: the rules for our user agent (or "*"), longest match wins
+
+export const USER_AGENT = 'RomnexityBot/1.0 (+https://github.com/russellromney/romnexity)';
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+}
+
+// Rules per origin, refetched after an hour; insertion order doubles as age order for pruning
+const robotsCache = new Map<string, { rules: Promise<RobotsRules>; fetchedAt: number }>();
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+const MAX_ROBOTS_ENTRIES = 1000;
+
+function parseRobots(text: string): RobotsRules {
+  const groups: { agents: string[]; rules: RobotsRules }[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current || !value) continue;
+    if (field === 'allow') current.rules.allow.push(value);
+    if (field === 'disallow') current.rules.disallow.push(value);
+  }
+
+  const ours = groups.find(group => group.agents.some(agent => agent !== '*' && USER_AGENT.toLowerCase().includes(agent)));
+  const wildcard = groups.find(group => group.agents.includes('*'));
+  return (ours ?? wildcard)?.rules ?? { allow: [], disallow: [] };
+}
+
+function longestMatch(patterns: string[], path: string): number {
+  return patterns.reduce((longest, pattern) => {
+    const regex = new RegExp('^' + pattern
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\\\$$/, '$'));
+    return regex.test(path) ? Math.max(longest, pattern.length) : longest;
+  }, -1);
+}
+
+async function fetchRobots(origin: string, timeoutMs: number): Promise<RobotsRules> {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    // A missing robots.txt allows everything
+    if (!response.ok) return { allow: [], disallow: [] };
+    return parseRobots(await response.text());
+  } catch {
+    return { allow: [], disallow: [] };
+  }
+}
+
+// Drop expired origins, then the oldest ones if the cache is still full
+function pruneRobotsCache(now: number) {
+  if (robotsCache.size < MAX_ROBOTS_ENTRIES) return;
+  for (const [origin, entry] of robotsCache) {
+    if (now - entry.fetchedAt >= ROBOTS_TTL_MS) robotsCache.delete(origin);
+  }
+  for (const origin of robotsCache.keys()) {
+    if (robotsCache.size < MAX_ROBOTS_ENTRIES) break;
+    robotsCache.delete(origin);
+  }
+}
+
+export async function isAllowedByRobots(url: URL, timeoutMs: number): Promise<boolean> {
+  const now = Date.now();
+  let entry = robotsCache.get(url.origin);
+  if (!entry || now - entry.fetchedAt >= ROBOTS_TTL_MS) {
+    robotsCache.delete(url.origin);
+    pruneRobotsCache(now);
+    entry = { rules: fetchRobots(url.origin, timeoutMs), fetchedAt: now };
+    robotsCache.set(url.origin, entry);
+  }
+
+  const { allow, disallow } = await entry.rules;
+  const path = url.pathname + url.search;
+  return longestMatch(allow, path) >= longestMatch(disallow, path);
+}
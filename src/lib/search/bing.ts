@@ -0,0 +1,84 @@
+import { PROVIDER_TIMEOUT_MS, SearchProvider, withSiteFilter } from './types';
+
+const BING_SEARCH_URL = 'https://api.bing.microsoft.com/v7.0/search';
+
+interface BingWebPage {
+  name: string;
+  url: string;
+  snippet?: string;
+  displayUrl?: string;
+  language?: string;
+  dateLastCrawled?: string;
+}
+
+interface BingMedia {
+  name?: string;
+  contentUrl: string;
+  thumbnailUrl?: string;
+  hostPageUrl?: string;
+  width?: number;
+  height?: number;
+}
+
+export function createBingProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'bing',
+    async search(query, { maxResults, includeDomains, recencyDays, includeMedia }) {
+      const url = new URL(BING_SEARCH_URL);
+      url.searchParams.set('q', withSiteFilter(query, includeDomains));
+      url.searchParams.set('count', String(Math.min(maxResults, 50)));
+      url.searchParams.set('responseFilter', includeMedia ? 'Webpages,Images,Videos' : 'Webpages');
+      if (recencyDays) {
+        url.searchParams.set('freshness', recencyDays <= 1 ? 'Day' : recencyDays <= 7 ? 'Week' : 'Month');
+      }
+
+      const response = await fetch(url, {
+        headers: { 'Ocp-Apim-Subscription-Key': apiKey },
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Bing Search request failed with HTTP ${response.status}`);
+      }
+
+      const data: {
+        webPages?: { value?: BingWebPage[] };
+        images?: { value?: BingMedia[] };
+        videos?: { value?: BingMedia[] };
+      } = await response.json();
+
+      return {
+        results: (data.webPages?.value ?? []).slice(0, maxResults).map(page => ({
+          title: page.name,
+          url: page.url,
+          content: page.snippet ?? '',
+          provider: 'bing',
+          metadata: {
+            displayUrl: page.displayUrl,
+            language: page.language,
+            dateLastCrawled: page.dateLastCrawled,
+          },
+        })),
+        media: [
+          ...(data.images?.value ?? []).map(image => ({
+            type: 'image' as const,
+            url: image.contentUrl,
+            thumbnailUrl: image.thumbnailUrl,
+            title: image.name,
+            sourceUrl: image.hostPageUrl,
+            width: image.width,
+            height: image.height,
+            provider: 'bing',
+          })),
+          // For videos, hostPageUrl is the watch page and contentUrl may be the raw file
+          ...(data.videos?.value ?? []).filter(video => video.thumbnailUrl).map(video => ({
+            type: 'video' as const,
+            url: video.hostPageUrl ?? video.contentUrl,
+            thumbnailUrl: video.thumbnailUrl,
+            title: video.name,
+            provider: 'bing',
+          })),
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { PROVIDER_TIMEOUT_MS, SearchProvider, stripTags, withSiteFilter } from './types';
+
+const BRAVE_SEARCH_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+interface BraveResult {
+  title: string;
+  url: string;
+  description?: string;
+  age?: string;
+  language?: string;
+  profile?: { name?: string };
+  extra_snippets?: string[];
+}
+
+interface BraveVideo {
+  title: string;
+  url: string;
+  thumbnail?: { src?: string };
+  video?: { duration?: string; creator?: string; publisher?: string };
+}
+
+export function createBraveProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'brave',
+    async search(query, { maxResults, includeDomains, recencyDays, includeMedia }) {
+      const url = new URL(BRAVE_SEARCH_URL);
+      url.searchParams.set('q', withSiteFilter(query, includeDomains));
+      url.searchParams.set('count', String(Math.min(maxResults, 20)));
+      // Web search also returns related videos; images need the separate image search API
+      url.searchParams.set('result_filter', includeMedia ? 'web,videos' : 'web');
+      if (recencyDays) {
+        url.searchParams.set('freshness', recencyDays <= 1 ? 'pd' : recencyDays <= 7 ? 'pw' : recencyDays <= 31 ? 'pm' : 'py');
+      }
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+          'X-Subscription-Token': apiKey,
+        },
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Brave Search request failed with HTTP ${response.status}`);
+      }
+
+      const data: { web?: { results?: BraveResult[] }; videos?: { results?: BraveVideo[] } } = await response.json();
+
+      return {
+        results: (data.web?.results ?? []).slice(0, maxResults).map(result => ({
+          title: stripTags(result.title),
+          url: result.url,
+          content: stripTags([result.description, ...(result.extra_snippets ?? [])].filter(Boolean).join(' ')),
+          provider: 'brave',
+          metadata: {
+            age: result.age,
+            language: result.language,
+            siteName: result.profile?.name,
+          },
+        })),
+        media: (data.videos?.results ?? [])
+          .filter(video => video.thumbnail?.src)
+          .map(video => ({
+            type: 'video' as const,
+            url: video.url,
+            thumbnailUrl: video.thumbnail?.src,
+            title: stripTags(video.title),
+            provider: 'brave',
+          })),
+      };
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { readFile } from 'fs/promises';
+import { SearchResult } from '@/types';
+import { SearchProvider } from './types';
+
+// Serves results from a local JSON file (an array of SearchResult) for offline development and demos
+export function createFixtureProvider(path: string): SearchProvider {
+  return {
+    name: 'fixture',
+    async search(query, { maxResults, includeDomains }) {
+      const fixtures: SearchResult[] = (JSON.parse(await readFile(path, 'utf-8')) as SearchResult[])
+        .filter(fixture => !includeDomains || includeDomains.some(domain => fixture.url.includes(domain)));
+      const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
+
+      // Prefer fixtures that mention the query terms, but always return something
+      const matches = fixtures.filter(fixture => {
+        const text = `${fixture.title} ${fixture.content}`.toLowerCase();
+        return terms.some(term => text.includes(term));
+      });
+
+      return {
+        results: (matches.length > 0 ? matches : fixtures).slice(0, maxResults).map(fixture => ({
+          ...fixture,
+          provider: 'fixture',
+          metadata: { ...fixture.metadata, fixturePath: path },
+        })),
+      };
+    },
+  };
+}
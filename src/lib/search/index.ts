@@ -0,0 +1,234 @@
+import { MediaResult, SearchFocus, SearchResult } from '@/types';
+import { cacheKey, getCacheConfig, normalizeQuery, readCache, writeCache } from '@/lib/cache';
+import { getKnowledgeConfig } from '@/lib/knowledge';
+import { FOCUS_MODES, shapeQuery } from '@/lib/focus';
+import { createBingProvider } from './bing';
+import { createBraveProvider } from './brave';
+import { createFixtureProvider } from './fixture';
+import { createKnowledgeProvider } from './knowledge';
+import { createSearxngProvider } from './searxng';
+import { createTavilyProvider } from './tavily';
+import { ProviderResults, SearchOptions, SearchProvider, SearchProviderName } from './types';
+
+export type { ProviderResults, SearchOptions, SearchProvider, SearchProviderName } from './types';
+
+export const SEARCH_PROVIDER_NAMES: SearchProviderName[] = ['tavily', 'searxng', 'brave', 'bing', 'fixture', 'knowledge'];
+
+export interface ProviderFailure {
+  provider: SearchProviderName;
+  error: string;
+}
+
+export interface MultiSearchResult {
+  results: SearchResult[];
+  media: MediaResult[];
+  failures: ProviderFailure[];
+}
+
+// Build a provider from its environment configuration, or null when it is not configured
+function createProvider(name: SearchProviderName): SearchProvider | null {
+  switch (name) {
+    case 'tavily':
+      return process.env.TAVILY_API_KEY ? createTavilyProvider(process.env.TAVILY_API_KEY) : null;
+    case 'searxng':
+      return process.env.SEARXNG_URL ? createSearxngProvider(process.env.SEARXNG_URL) : null;
+    case 'brave':
+      return process.env.BRAVE_API_KEY ? createBraveProvider(process.env.BRAVE_API_KEY) : null;
+    case 'bing':
+      return process.env.BING_API_KEY ? createBingProvider(process.env.BING_API_KEY) : null;
+    case 'fixture':
+      return process.env.SEARCH_FIXTURE_PATH ? createFixtureProvider(process.env.SEARCH_FIXTURE_PATH) : null;
+    case 'knowledge':
+      return getKnowledgeConfig().sources.length > 0 ? createKnowledgeProvider() : null;
+  }
+}
+
+// SEARCH_PROVIDERS is a comma-separated list (e.g. "tavily,searxng"); Tavily is the default
+export function getEnabledProviderNames(): SearchProviderName[] {
+  const configured = (process.env.SEARCH_PROVIDERS || 'tavily')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is SearchProviderName => SEARCH_PROVIDER_NAMES.includes(name as SearchProviderName));
+
+  return [...new Set(configured)];
+}
+
+// Resolve the providers for a request; requested names are limited to the enabled ones
+export function getSearchProviders(requested?: string[]): SearchProvider[] {
+  const enabled = getEnabledProviderNames();
+  const names = requested && requested.length > 0
+    ? enabled.filter(name => requested.includes(name))
+    : enabled;
+
+  return names
+    .map(createProvider)
+    .filter((provider): provider is SearchProvider => provider !== null);
+}
+
+// Normalize a URL for de-duplication across providers
+export function urlKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+// Interleave provider result lists by rank, keeping the first occurrence of each URL
+function mergeResults(lists: SearchResult[][], maxResults: number): SearchResult[] {
+  const merged: SearchResult[] = [];
+  const seen = new Set<string>();
+  const longest = Math.max(0, ...lists.map(list => list.length));
+
+  for (let rank = 0; rank < longest && merged.length < maxResults; rank++) {
+    for (const list of lists) {
+      const result = list[rank];
+      if (!result) continue;
+
+      const key = urlKey(result.url);
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      merged.push(result);
+      if (merged.length >= maxResults) break;
+    }
+  }
+
+  return merged;
+}
+
+// Interleave media the same way, de-duplicated by URL
+function mergeMedia(lists: MediaResult[][], maxResults: number): MediaResult[] {
+  const merged: MediaResult[] = [];
+  const seen = new Set<string>();
+  const longest = Math.max(0, ...lists.map(list => list.length));
+
+  for (let rank = 0; rank < longest && merged.length < maxResults; rank++) {
+    for (const list of lists) {
+      const item = list[rank];
+      if (!item || seen.has(item.url)) continue;
+      seen.add(item.url);
+      merged.push(item);
+      if (merged.length >= maxResults) break;
+    }
+  }
+
+  return merged;
+}
+
+// Query every provider in parallel; failures are reported but only fatal if all providers fail
+export async function searchAll(
+  providers: SearchProvider[],
+  query: string,
+  options: SearchOptions
+): Promise<MultiSearchResult> {
+  const settled = await Promise.allSettled(providers.map(provider => provider.search(query, options)));
+
+  const lists: SearchResult[][] = [];
+  const mediaLists: MediaResult[][] = [];
+  const failures: ProviderFailure[] = [];
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      lists.push(outcome.value.results);
+      mediaLists.push(outcome.value.media ?? []);
+    } else {
+      const reason = outcome.reason;
+      console.warn(`Search provider ${providers[index].name} failed:`, reason);
+      failures.push({
+        provider: providers[index].name,
+        error: reason instanceof Error ? reason.message : String(reason),
+      });
+    }
+  });
+
+  if (lists.length === 0 && settled.length > 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  return {
+    results: mergeResults(lists, options.maxResults),
+    media: mergeMedia(mediaLists, Infinity),
+    failures,
+  };
+}
+
+export interface WebSearchOptions {
+  maxResults?: number;
+  maxMedia?: number; // images and videos to collect; 0 skips them
+  // Skip cached results; the fresh results replace the cached entry
+  bypassCache?: boolean;
+}
+
+// Search with every selected provider under a focus mode's filters and merge the results
+export async function searchWeb(
+  query: string,
+  providers: SearchProvider[],
+  focus: SearchFocus,
+  { maxResults = 8, maxMedia = 0, bypassCache = false }: WebSearchOptions = {}
+): Promise<ProviderResults> {
+  const { includeDomains, recencyDays, topic } = FOCUS_MODES[focus];
+  const searchQuery = shapeQuery(query, focus);
+
+  const { searchTtlSeconds } = getCacheConfig();
+  const key = cacheKey('search', [
+    normalizeQuery(searchQuery),
+    focus,
+    providers.map(p => p.name).sort(),
+    maxResults,
+    maxMedia,
+  ]);
+  if (!bypassCache && searchTtlSeconds > 0) {
+    const cached = readCache<ProviderResults>(key);
+    if (cached) {
+      console.log(`Using cached search results (${cached.ageSeconds}s old) for:`, searchQuery);
+      return cached.value;
+    }
+  }
+
+  console.log(`Searching ${providers.map(p => p.name).join(', ')} (${focus} focus) for:`, searchQuery);
+
+  const { results, media, failures } = await searchAll(providers, searchQuery, {
+    maxResults,
+    includeDomains,
+    recencyDays,
+    topic,
+    includeMedia: maxMedia > 0,
+  });
+  const found = { results, media: media.slice(0, maxMedia) };
+  if (failures.length > 0) {
+    console.warn('Continuing without failed providers:', failures.map(f => f.provider).join(', '));
+  } else if (results.length > 0) {
+    // Partial results are not cached, so a flaky provider gets another chance next time
+    writeCache(key, found, searchTtlSeconds);
+  }
+
+  return found;
+}
+
+// Search several queries (e.g. a rewritten follow-up) and interleave their results
+export async function searchQueries(
+  queries: string[],
+  providers: SearchProvider[],
+  focus: SearchFocus,
+  options: WebSearchOptions = {}
+): Promise<ProviderResults> {
+  if (queries.length === 1) {
+    return searchWeb(queries[0], providers, focus, options);
+  }
+
+  const settled = await Promise.allSettled(queries.map(query => searchWeb(query, providers, focus, options)));
+  const found = settled
+    .filter((outcome): outcome is PromiseFulfilledResult<ProviderResults> => outcome.status === 'fulfilled')
+    .map(outcome => outcome.value);
+
+  if (found.length === 0 && settled.length > 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  return {
+    results: mergeResults(found.map(f => f.results), options.maxResults ?? 8),
+    media: mergeMedia(found.map(f => f.media ?? []), options.maxMedia ?? 0),
+  };
+}
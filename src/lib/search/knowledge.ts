@@ -0,0 +1,21 @@
+import { getKnowledgeConfig, isSitemapSource, searchKnowledge } from '@/lib/knowledge';
+import { SearchProvider } from './types';
+
+// The local knowledge base built by `npm run knowledge:index`. Focus modes that limit the
+// search to certain domains keep only sitemap pages on those domains
+export function createKnowledgeProvider(): SearchProvider {
+  return {
+    name: 'knowledge',
+    async search(query, { maxResults, includeDomains }) {
+      const results = await searchKnowledge(query, Math.min(maxResults, getKnowledgeConfig().maxResults));
+      if (!includeDomains) return { results };
+      return {
+        results: results.filter(result => {
+          if (!result.knowledge || !isSitemapSource(result.knowledge.location)) return false;
+          const host = new URL(result.knowledge.location).hostname.replace(/^www\./, '');
+          return includeDomains.some(domain => host === domain || host.endsWith(`.${domain}`));
+        }),
+      };
+    },
+  };
+}
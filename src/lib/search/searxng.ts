@@ -0,0 +1,85 @@
+import { MediaResult } from '@/types';
+import { PROVIDER_TIMEOUT_MS, SearchProvider, withSiteFilter } from './types';
+
+interface SearxngResult {
+  title: string;
+  url: string;
+  content?: string;
+  score?: number;
+  engine?: string;
+  engines?: string[];
+  category?: string;
+  publishedDate?: string | null;
+  img_src?: string; // image results
+  thumbnail_src?: string;
+  thumbnail?: string; // video results
+}
+
+async function querySearxng(url: URL): Promise<SearxngResult[]> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`SearxNG request failed with HTTP ${response.status}`);
+  }
+
+  const data: { results?: SearxngResult[] } = await response.json();
+  return data.results ?? [];
+}
+
+function toMedia(result: SearxngResult): MediaResult | null {
+  if (result.img_src) {
+    return {
+      type: 'image',
+      url: result.img_src,
+      thumbnailUrl: result.thumbnail_src || undefined,
+      title: result.title,
+      sourceUrl: result.url,
+      provider: 'searxng',
+    };
+  }
+  if (result.category === 'videos' && result.thumbnail) {
+    return { type: 'video', url: result.url, thumbnailUrl: result.thumbnail, title: result.title, provider: 'searxng' };
+  }
+  return null;
+}
+
+// Self-hosted SearxNG instance; the JSON output format must be enabled in its settings
+export function createSearxngProvider(baseUrl: string): SearchProvider {
+  return {
+    name: 'searxng',
+    async search(query, { maxResults, includeDomains, recencyDays, topic, includeMedia }) {
+      const url = new URL('/search', baseUrl);
+      url.searchParams.set('q', withSiteFilter(query, includeDomains));
+      url.searchParams.set('format', 'json');
+      if (topic === 'news') {
+        url.searchParams.set('categories', 'news');
+      }
+      if (recencyDays) {
+        url.searchParams.set('time_range', recencyDays <= 1 ? 'day' : recencyDays <= 7 ? 'week' : recencyDays <= 31 ? 'month' : 'year');
+      }
+
+      // Images and videos are separate categories, searched in parallel; losing them never fails the search
+      const mediaUrl = new URL(url);
+      mediaUrl.searchParams.set('categories', 'images,videos');
+      const [results, mediaResults] = await Promise.all([
+        querySearxng(url),
+        includeMedia ? querySearxng(mediaUrl).catch(() => []) : Promise.resolve([]),
+      ]);
+
+      return {
+        results: results.slice(0, maxResults).map(result => ({
+          title: result.title,
+          url: result.url,
+          content: result.content ?? '',
+          provider: 'searxng',
+          metadata: {
+            engines: result.engines ?? (result.engine ? [result.engine] : []),
+            category: result.category,
+            publishedDate: result.publishedDate ?? undefined,
+            searxngScore: result.score,
+          },
+        })),
+        media: mediaResults.map(toMedia).filter((media): media is MediaResult => media !== null),
+      };
+    },
+  };
+}
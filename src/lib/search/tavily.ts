@@ -0,0 +1,44 @@
+import ky from 'ky';
+import { TavilyClient, tavily } from 'tavily';
+import { PROVIDER_TIMEOUT_MS, SearchProvider } from './types';
+
+// The API accepts topic/days, the SDK passes options through but does not type them
+type TavilySearchOptions = tavily.SearchOptions & { topic?: 'general' | 'news'; days?: number };
+
+export function createTavilyProvider(apiKey: string): SearchProvider {
+  // The SDK requests through ky, so the timeout goes on the instance it is given
+  const client = new TavilyClient({ apiKey, ky: ky.extend({ timeout: PROVIDER_TIMEOUT_MS }) });
+
+  return {
+    name: 'tavily',
+    async search(query, { maxResults, includeDomains, recencyDays, topic, includeMedia }) {
+      const options: TavilySearchOptions = {
+        query: query,
+        search_depth: 'basic',
+        max_results: maxResults,
+        include_answer: false,
+        include_images: includeMedia ?? false,
+        include_raw_content: false,
+        include_domains: includeDomains,
+        topic,
+        days: topic === 'news' ? recencyDays : undefined,
+      };
+      const searchResults = await client.search(options);
+
+      return {
+        results: searchResults.results.map(result => ({
+          title: result.title,
+          url: result.url,
+          content: result.content,
+          score: Number(result.score),
+          provider: 'tavily',
+          metadata: {
+            responseTime: searchResults.response_time,
+          },
+        })),
+        // Tavily returns bare image URLs, without the page they came from
+        media: (searchResults.images ?? []).map(url => ({ type: 'image' as const, url, provider: 'tavily' })),
+      };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { MediaResult, SearchResult } from '@/types';
+
+export type SearchProviderName = 'tavily' | 'searxng' | 'brave' | 'bing' | 'fixture' | 'knowledge';
+
+export interface SearchOptions {
+  maxResults: number;
+  includeDomains?: string[];
+  recencyDays?: number;
+  topic?: 'general' | 'news';
+  includeMedia?: boolean; // also return images and videos when the provider has them
+}
+
+export interface ProviderResults {
+  results: SearchResult[];
+  media?: MediaResult[];
+}
+
+// A search backend (the web, or the local knowledge base) normalized to our SearchResult shape
+export interface SearchProvider {
+  name: SearchProviderName;
+  search(query: string, options: SearchOptions): Promise<ProviderResults>;
+}
+
+// Providers are given a bounded amount of time before they are treated as failed
+export const PROVIDER_TIMEOUT_MS = 10_000;
+
+// Remove markup some providers embed in their snippets (e.g. <strong> highlights)
+export function stripTags(text: string): string {
+  return text.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// For providers without a domain filter parameter, restrict via the site: operator
+export function withSiteFilter(query: string, domains?: string[]): string {
+  if (!domains || domains.length === 0) return query;
+  return `${query} (${domains.map(domain => `site:${domain}`).join(' OR ')})`;
+}
@@ -0,0 +1,169 @@
+import { NextResponse } from 'next/server';
+import { ApiError, SearchApiRequest, SearchResponse, SearchStreamEvent, User } from '@/types';
+import { encodeStreamEvent, STREAM_CONTENT_TYPE } from './stream';
+import { getSearchProviders } from './search';
+import { validateSearchRequest } from './searchRequest';
+import { isLlmConfigured, resolveModel } from './llm';
+import { runSearch, SearchParams } from './pipeline';
+import { getCollection } from './collectionStore';
+import { getChat } from './chatStore';
+import { RateLimitResult } from './rateLimit';
+import { apiError, apiErrorResponse, invalidRequest } from './apiErrors';
+import { describeFailure } from './classifyError';
+
+// Request handling shared by the app's /api/search and the public /api/v1/search
+
+// Run the pipeline, remembering whether it failed before or after the sources were found
+async function runTracked(
+  params: SearchParams,
+  correlationId: string,
+  emit?: (event: SearchStreamEvent) => void
+): Promise<{ response: SearchResponse } | { failure: ApiError }> {
+  let stage: 'search' | 'llm' = 'search';
+  try {
+    const response = await runSearch(params, event => {
+      if (event.type === 'sources') stage = 'llm';
+      emit?.(event);
+    });
+    return { response };
+  } catch (error) {
+    return { failure: describeFailure(error, stage, correlationId) };
+  }
+}
+
+// Stream the search as NDJSON: sources first, then answer deltas, then citations
+function streamSearch(params: SearchParams, correlationId: string): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: SearchStreamEvent) => controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+
+      const outcome = await runTracked(params, correlationId, send);
+      if ('failure' in outcome) {
+        send({ type: 'error', ...outcome.failure });
+      } else {
+        console.log('Search stream completed successfully');
+      }
+      controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Correlation-Id': correlationId,
+    },
+  });
+}
+
+// Tell the client how long to wait, both in the headers and in the body for the UI countdown
+export function rateLimitedResponse(
+  { reason, retryAfterSeconds = 60, headers }: RateLimitResult,
+  correlationId: string
+): NextResponse {
+  const code = reason === 'quota' ? 'quota_exceeded' : 'rate_limited';
+  return apiErrorResponse(apiError(code, correlationId, { retryAfter: retryAfterSeconds }), headers);
+}
+
+export interface SearchRequestContext {
+  user: User | null; // API-key clients have none, so they cannot pass collectionId or chatId
+  headers: Headers;
+  correlationId: string;
+}
+
+// Check a request body and turn it into pipeline parameters, or into the error response to send.
+// A null body is one that did not parse as JSON
+export function parseSearchRequest(
+  body: unknown,
+  { user, headers, correlationId }: SearchRequestContext
+): { params: SearchParams; stream: boolean } | NextResponse {
+  const invalid = (field: string, message: string) =>
+    apiErrorResponse(invalidRequest([{ field, message }], correlationId));
+  const notConfigured = (message: string) => apiErrorResponse(apiError('not_configured', correlationId, { message }));
+
+  if (body === null) {
+    return apiErrorResponse(apiError('invalid_json', correlationId));
+  }
+
+  // Types, lengths and allowed values of every field; nothing below trusts the body before this
+  const fieldErrors = validateSearchRequest(body);
+  if (fieldErrors.length > 0) {
+    return apiErrorResponse(invalidRequest(fieldErrors, correlationId));
+  }
+
+  const {
+    query,
+    conversationContext,
+    stream,
+    providers: requestedProviders,
+    model: requestedModel,
+    focus = 'all',
+    mode = 'quick',
+    bypassCache = false,
+    collectionId,
+    chatId
+  } = body as SearchApiRequest;
+
+  // Collection instructions come from the server copy, not the request
+  const collection = collectionId ? (user ? getCollection(user.id, collectionId) : null) : undefined;
+  if (collection === null) {
+    return invalid('collectionId', `Unknown collection "${collectionId}"`);
+  }
+
+  // Check the model against the server-side allowlist
+  const model = resolveModel(requestedModel);
+  if (!model) {
+    return invalid('model', `Model "${requestedModel}" is not available`);
+  }
+
+  // Check API keys
+  if (!isLlmConfigured()) {
+    return notConfigured('API keys not configured');
+  }
+
+  const providers = getSearchProviders(requestedProviders);
+  if (providers.length === 0) {
+    return notConfigured('No search providers configured');
+  }
+
+  // A no-cache request header works like bypassCache for clients that cannot change the body
+  const params: SearchParams = {
+    query,
+    providers,
+    model,
+    focus,
+    mode,
+    conversationContext,
+    bypassCache: bypassCache || /no-cache/i.test(headers.get('cache-control') ?? ''),
+    instructions: collection?.instructions,
+    // Only the caller's own chats have their documents searched. A new chat may not be
+    // saved yet when its first question arrives; it has no documents either way
+    chatId: chatId && user && getChat(user.id, chatId) ? chatId : undefined,
+  };
+  return { params, stream: Boolean(stream) };
+}
+
+// Answer as JSON, or as a stream of events when the client asked for one
+export async function searchResponse(params: SearchParams, stream: boolean, correlationId: string): Promise<Response> {
+  // Streaming mode: send events as they become available
+  if (stream) {
+    return streamSearch(params, correlationId);
+  }
+
+  const outcome = await runTracked(params, correlationId);
+  if ('failure' in outcome) {
+    return apiErrorResponse(outcome.failure);
+  }
+
+  const { response } = outcome;
+  console.log('Search completed successfully');
+  return NextResponse.json(response, {
+    headers: {
+      'X-Cache': response.cache?.hit ? 'HIT' : params.bypassCache ? 'BYPASS' : 'MISS',
+      'Age': String(response.cache?.ageSeconds ?? 0),
+      'X-Correlation-Id': correlationId,
+    },
+  });
+}
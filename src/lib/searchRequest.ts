@@ -0,0 +1,53 @@
+import { ConversationMessage, FieldError, SearchMode } from '@/types';
+import { SEARCH_FOCUSES } from './focus';
+import { Field, validateFields } from './validation';
+
+// Limits on a SearchApiRequest, shared by /api/search, /api/v1/search, the OpenAPI document and the UI
+
+export const SEARCH_MODES: SearchMode[] = ['quick', 'research'];
+
+export const SEARCH_REQUEST_LIMITS = {
+  queryLength: 2000,
+  contextMessages: 20, // earlier turns sent as conversation context
+  contextAnswerLength: 20000,
+  providers: 10,
+  providerNameLength: 32,
+  idLength: 100, // model, collectionId and chatId
+};
+
+const { queryLength, contextMessages, contextAnswerLength, providers, providerNameLength, idLength } = SEARCH_REQUEST_LIMITS;
+
+export const SEARCH_REQUEST_FIELDS: Record<string, Field> = {
+  query: { type: 'string', required: true, minLength: 1, maxLength: queryLength },
+  conversationContext: {
+    type: 'array',
+    maxItems: contextMessages,
+    items: {
+      type: 'object',
+      fields: {
+        query: { type: 'string', required: true, maxLength: queryLength },
+        answer: { type: 'string', required: true, maxLength: contextAnswerLength },
+      },
+    },
+  },
+  stream: { type: 'boolean' },
+  providers: { type: 'array', maxItems: providers, items: { type: 'string', minLength: 1, maxLength: providerNameLength } },
+  model: { type: 'string', minLength: 1, maxLength: idLength },
+  focus: { type: 'string', enum: SEARCH_FOCUSES },
+  mode: { type: 'string', enum: SEARCH_MODES },
+  bypassCache: { type: 'boolean' },
+  collectionId: { type: 'string', nullable: true, minLength: 1, maxLength: idLength },
+  chatId: { type: 'string', minLength: 1, maxLength: idLength },
+};
+
+export function validateSearchRequest(body: unknown): FieldError[] {
+  return validateFields(SEARCH_REQUEST_FIELDS, body);
+}
+
+// The most recent turns of a conversation, cut down to fit the request limits
+export function limitConversationContext(messages: ConversationMessage[]): ConversationMessage[] {
+  return messages.slice(-contextMessages).map(({ query, answer }) => ({
+    query: query.slice(0, queryLength),
+    answer: answer.slice(0, contextAnswerLength),
+  }));
+}
@@ -0,0 +1,32 @@
+import { ApiError, ApiErrorStage } from '@/types';
+
+// Client-side handling of failed searches: which failures to retry, when, and how to describe them
+
+// Attempts per search, counting the first; rate limits are never retried automatically
+export const MAX_SEARCH_ATTEMPTS = 3;
+
+export function isApiError(value: unknown): value is ApiError {
+  if (!value || typeof value !== 'object') return false;
+  const { error, code, stage, retryable } = value as Record<string, unknown>;
+  return typeof error === 'string' && typeof code === 'string' && typeof stage === 'string' && typeof retryable === 'boolean';
+}
+
+export function shouldRetrySearch(error: ApiError, attempt: number): boolean {
+  return error.retryable && error.code !== 'rate_limited' && attempt < MAX_SEARCH_ATTEMPTS;
+}
+
+// 1s, 2s, 4s, ... after the first, second, third failed attempt
+export function retryDelayMs(attempt: number): number {
+  return 1000 * 2 ** (attempt - 1);
+}
+
+const STAGE_TITLES: Record<ApiErrorStage, string> = {
+  parse: 'The search request was not accepted',
+  search: 'Searching the web failed',
+  llm: 'Writing the answer failed',
+  server: 'Search Error',
+};
+
+export function errorTitle(stage: ApiErrorStage | undefined): string {
+  return STAGE_TITLES[stage ?? 'server'];
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createUser } from './auth/users';
+import { createChat } from './chatStore';
+import { createShare, getShare, listShares, revokeShare } from './shareStore';
+
+process.env.DATABASE_PATH = ':memory:';
+
+function sharedChat(email: string) {
+  const user = createUser({ email, passwordHash: null })!;
+  const chatId = `chat-${email}`;
+  createChat(user.id, {
+    id: chatId,
+    title: 'Shared chat',
+    messages: [{ id: `m-${email}`, query: 'q', response: { query: 'q', answer: 'a', sources: [], citations: [] }, timestamp: new Date() }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  return { user, created: createShare(user.id, chatId)! };
+}
+
+test("only the chat's owner can share it", () => {
+  const { created } = sharedChat('share-owner@example.com');
+  const stranger = createUser({ email: 'share-stranger@example.com', passwordHash: null })!;
+  assert.equal(created.share.messages.length, 1);
+  assert.equal(createShare(stranger.id, 'chat-share-owner@example.com'), null);
+});
+
+test('shares are listed for their owner only', () => {
+  const { user, created } = sharedChat('share-list@example.com');
+  const other = createUser({ email: 'share-list-other@example.com', passwordHash: null })!;
+  assert.deepEqual(listShares(user.id).map(share => share.id), [created.share.id]);
+  assert.deepEqual(listShares(other.id), []);
+});
+
+test('a share is revoked by its token or its owner, never by anyone else', () => {
+  const byToken = sharedChat('share-token@example.com').created;
+  const byOwner = sharedChat('share-by-owner@example.com');
+  const stranger = createUser({ email: 'share-other@example.com', passwordHash: null })!;
+
+  assert.equal(revokeShare(byToken.share.id, { userId: stranger.id }), 'forbidden');
+  assert.equal(revokeShare(byToken.share.id, { token: 'wrong' }), 'forbidden');
+  assert.equal(revokeShare(byToken.share.id, { token: byToken.token }), 'revoked');
+  assert.equal(getShare(byToken.share.id), null);
+  assert.equal(revokeShare(byToken.share.id, { token: byToken.token }), 'not_found');
+
+  assert.equal(revokeShare(byOwner.created.share.id, { userId: byOwner.user.id }), 'revoked');
+  assert.deepEqual(listShares(byOwner.user.id), []);
+});
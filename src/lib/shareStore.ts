@@ -0,0 +1,113 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ChatMessage, SharedThread, ShareInfo } from '@/types';
+import { getActivePath } from './chatBranches';
+import { getChat } from './chatStore';
+import { getDb } from './db';
+
+interface ShareRow {
+  id: string;
+  kind: SharedThread['kind'];
+  title: string;
+  messages: string;
+  token_hash: string;
+  created_at: string;
+  revoked_at: string | null;
+  user_id: string | null;
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function reviveMessage(message: ChatMessage): ChatMessage {
+  return { ...message, timestamp: new Date(message.timestamp) };
+}
+
+// Snapshot the chat's active branch (or one of its messages) as it is now; later edits to the chat do not change the share
+export function createShare(
+  userId: string,
+  chatId: string,
+  messageId?: string
+): { share: SharedThread; token: string } | null {
+  const chat = getChat(userId, chatId);
+  if (!chat) return null;
+
+  const messages = messageId ? chat.messages.filter(message => message.id === messageId) : getActivePath(chat);
+  if (messages.length === 0) return null;
+
+  const share: SharedThread = {
+    id: randomBytes(9).toString('base64url'),
+    kind: messageId ? 'message' : 'chat',
+    title: messageId ? messages[0].query : chat.title,
+    messages,
+    createdAt: new Date(),
+  };
+  const token = randomBytes(24).toString('base64url');
+
+  getDb().prepare(
+    `INSERT INTO shares (id, user_id, kind, title, messages, token_hash, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    share.id,
+    userId,
+    share.kind,
+    share.title,
+    JSON.stringify(messages),
+    hashToken(token).toString('hex'),
+    share.createdAt.toISOString()
+  );
+
+  return { share, token };
+}
+
+// Revoked shares are treated as missing
+export function getShare(id: string): SharedThread | null {
+  const row = getDb()
+    .prepare('SELECT * FROM shares WHERE id = ? AND revoked_at IS NULL')
+    .get(id) as ShareRow | undefined;
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    kind: row.kind,
+    title: row.title,
+    messages: (JSON.parse(row.messages) as ChatMessage[]).map(reviveMessage),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// The user's live links, newest first
+export function listShares(userId: string): ShareInfo[] {
+  const rows = getDb()
+    .prepare('SELECT id, kind, title, created_at FROM shares WHERE user_id = ? AND revoked_at IS NULL ORDER BY created_at DESC')
+    .all(userId) as Pick<ShareRow, 'id' | 'kind' | 'title' | 'created_at'>[];
+  return rows.map(row => ({
+    id: row.id,
+    kind: row.kind,
+    title: row.title,
+    url: `/share/${row.id}`,
+    createdAt: new Date(row.created_at),
+  }));
+}
+
+// The signed-in owner may revoke a link from any browser; otherwise only the holder of the
+// token returned by createShare may
+export function revokeShare(
+  id: string,
+  { userId, token }: { userId?: string; token?: string | null }
+): 'revoked' | 'forbidden' | 'not_found' {
+  const db = getDb();
+  const row = db
+    .prepare('SELECT token_hash, user_id FROM shares WHERE id = ? AND revoked_at IS NULL')
+    .get(id) as Pick<ShareRow, 'token_hash' | 'user_id'> | undefined;
+  if (!row) return 'not_found';
+
+  const isOwner = userId !== undefined && row.user_id === userId;
+  if (!isOwner && !(token && timingSafeEqual(Buffer.from(row.token_hash, 'hex'), hashToken(token)))) {
+    return 'forbidden';
+  }
+
+  // Drop the snapshot so revoked content is no longer stored
+  db.prepare("UPDATE shares SET revoked_at = ?, messages = '[]' WHERE id = ?").run(new Date().toISOString(), id);
+  return 'revoked';
+}
@@ -0,0 +1,55 @@
+import { ShareTarget } from '@/types';
+
+// Browser-side record of the links this browser published, with the tokens that revoke them
+const STORAGE_KEY = 'romnexity_shares';
+
+export interface PublishedShare extends ShareTarget {
+  id: string;
+  url: string;
+  token: string;
+}
+
+function readShares(): PublishedShare[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) as PublishedShare[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeShares(shares: PublishedShare[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shares));
+}
+
+export function findPublishedShare(target: ShareTarget): PublishedShare | undefined {
+  return readShares().find(share => share.chatId === target.chatId && share.messageId === target.messageId);
+}
+
+export function getPublishedShare(id: string): PublishedShare | undefined {
+  return readShares().find(share => share.id === id);
+}
+
+export function rememberPublishedShare(share: PublishedShare) {
+  writeShares([...readShares().filter(s => s.id !== share.id), share]);
+}
+
+export function forgetPublishedShare(id: string) {
+  writeShares(readShares().filter(share => share.id !== id));
+}
+
+// Revoke a link; returns false when the server refused. Links published from another
+// browser have no token here and rely on the signed-in owner's session
+export async function revokePublishedShare(id: string): Promise<boolean> {
+  const share = getPublishedShare(id);
+  const response = await fetch(`/api/shares/${id}`, {
+    method: 'DELETE',
+    headers: share ? { 'X-Share-Token': share.token } : undefined,
+  });
+  // Already gone on the server, so there is nothing left to revoke
+  if (response.ok || response.status === 404) {
+    forgetPublishedShare(id);
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,42 @@
+import { SearchStreamEvent } from '@/types';
+
+// Search streams are newline-delimited JSON: one SearchStreamEvent per line
+export const STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export function encodeStreamEvent(event: SearchStreamEvent): string {
+  return JSON.stringify(event) + '\n';
+}
+
+// Read an NDJSON search stream, invoking onEvent for every complete line
+export async function readSearchStream(
+  response: Response,
+  onEvent: (event: SearchStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line) as SearchStreamEvent);
+      }
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer) as SearchStreamEvent);
+  }
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Field, validateFields } from './validation';
+import { SEARCH_REQUEST_LIMITS, validateSearchRequest } from './searchRequest';
+
+const fields: Record<string, Field> = {
+  name: { type: 'string', required: true, minLength: 1, maxLength: 5 },
+  tags: { type: 'array', maxItems: 2, items: { type: 'string', enum: ['a', 'b'] } },
+  parent: { type: 'string', nullable: true },
+};
+
+test('a valid body has no errors', () => {
+  assert.deepEqual(validateFields(fields, { name: 'abc', tags: ['a'], parent: null, extra: 1 }), []);
+});
+
+test('the body must be an object', () => {
+  assert.deepEqual(validateFields(fields, []), [{ field: '', message: 'Request body must be a JSON object' }]);
+});
+
+test('required and empty strings are reported', () => {
+  assert.deepEqual(validateFields(fields, {}), [{ field: 'name', message: 'name is required' }]);
+  assert.deepEqual(validateFields(fields, { name: '   ' }), [{ field: 'name', message: 'name must not be empty' }]);
+});
+
+test('surrounding whitespace counts toward the maximum length', () => {
+  assert.deepEqual(validateFields(fields, { name: 'abcde' }), []);
+  assert.deepEqual(validateFields(fields, { name: '  abcde  ' }), [{ field: 'name', message: 'name must be at most 5 characters' }]);
+  const padded = ' '.repeat(SEARCH_REQUEST_LIMITS.queryLength) + 'q';
+  assert.equal(validateSearchRequest({ query: padded })[0]?.field, 'query');
+});
+
+test('array items are checked with their index in the path', () => {
+  assert.deepEqual(validateFields(fields, { name: 'a', tags: ['a', 'c'] }), [{ field: 'tags[1]', message: 'tags[1] must be one of a, b' }]);
+  assert.deepEqual(validateFields(fields, { name: 'a', tags: ['a', 'b', 'a'] }), [{ field: 'tags', message: 'tags must have at most 2 items' }]);
+});
+
+test('null is only accepted where nullable', () => {
+  assert.deepEqual(validateFields(fields, { name: null }), [{ field: 'name', message: 'name must be a string' }]);
+});
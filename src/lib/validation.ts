@@ -0,0 +1,73 @@
+import { FieldError } from '@/types';
+
+// Declarative checks for JSON request bodies. Used by the server to reject bad requests and
+// by the UI to catch them before sending, so both read the limits from the same schema
+
+export type Rule =
+  | { type: 'string'; minLength?: number; maxLength?: number; enum?: readonly string[] }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Rule; maxItems?: number }
+  | { type: 'object'; fields: Record<string, Field> };
+
+// Missing (undefined) fields are allowed unless required; null only where nullable
+export type Field = Rule & { required?: boolean; nullable?: boolean };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkValue(rule: Rule, value: unknown, path: string, errors: FieldError[]) {
+  const fail = (message: string) => errors.push({ field: path, message: `${path} ${message}` });
+
+  switch (rule.type) {
+    case 'string': {
+      if (typeof value !== 'string') return fail('must be a string');
+      // The minimum ignores surrounding whitespace, so "   " is empty; the maximum counts it, since
+      // the value is passed on as sent
+      if (rule.minLength !== undefined && value.trim().length < rule.minLength) {
+        return fail(rule.minLength === 1 ? 'must not be empty' : `must be at least ${rule.minLength} characters`);
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        return fail(`must be at most ${rule.maxLength} characters`);
+      }
+      if (rule.enum && !rule.enum.includes(value)) {
+        return fail(`must be one of ${rule.enum.join(', ')}`);
+      }
+      return;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('must be true or false');
+      return;
+    case 'array':
+      if (!Array.isArray(value)) return fail('must be an array');
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+        return fail(`must have at most ${rule.maxItems} items`);
+      }
+      value.forEach((item, index) => checkValue(rule.items, item, `${path}[${index}]`, errors));
+      return;
+    case 'object':
+      if (!isRecord(value)) return fail('must be an object');
+      checkFields(rule.fields, value, `${path}.`, errors);
+      return;
+  }
+}
+
+function checkFields(fields: Record<string, Field>, body: Record<string, unknown>, prefix: string, errors: FieldError[]) {
+  Object.entries(fields).forEach(([name, field]) => {
+    const value = body[name];
+    const path = `${prefix}${name}`;
+    if (value === undefined || (value === null && field.nullable)) {
+      if (field.required) errors.push({ field: path, message: `${path} is required` });
+      return;
+    }
+    checkValue(field, value, path, errors);
+  });
+}
+
+// Check a request body against its fields. Fields not in the schema are ignored
+export function validateFields(fields: Record<string, Field>, body: unknown): FieldError[] {
+  if (!isRecord(body)) return [{ field: '', message: 'Request body must be a JSON object' }];
+  const errors: FieldError[] = [];
+  checkFields(fields, body, '', errors);
+  return errors;
+}
@@ -0,0 +1,135 @@
+import { Citation, CitationVerdict, ClaimVerification, SearchResult } from '@/types';
+import { citationNumbers, splitSentences } from './citations';
+import { extractJsonArray, getLlmProvider } from './llm';
+import { tokenize } from './retrieval/passages';
+
+// CITATION_VERIFICATION selects how cited sentences are checked against their sources:
+// "lexical" (default) scores term overlap with the best-matching source sentence,
+// "llm" asks the model to judge each claim, and "off" skips verification
+export type VerificationMode = 'off' | 'lexical' | 'llm';
+
+export function getVerificationMode(): VerificationMode {
+  const mode = process.env.CITATION_VERIFICATION;
+  return mode === 'off' || mode === 'llm' ? mode : 'lexical';
+}
+
+interface Claim {
+  sentenceIndex: number;
+  sentence: string;
+  citationIndex: number;
+}
+
+const VERDICT_RANK: Record<CitationVerdict, number> = { unsupported: 0, weak: 1, supported: 2 };
+
+// Every (sentence, cited source) pair in the answer
+function extractClaims(answer: string, sourceCount: number): Claim[] {
+  return splitSentences(answer).flatMap((rawSentence, sentenceIndex) => {
+    const sentence = rawSentence.replace(/\s*\[\d+\]/g, '').trim();
+    return citationNumbers(rawSentence)
+      .filter(num => num > 0 && num <= sourceCount)
+      .map(citationIndex => ({ sentenceIndex, sentence, citationIndex }));
+  });
+}
+
+// The source sentence (or adjacent pair) covering the most of the claim's terms
+function findSupportingQuote(claim: string, sourceText: string): { quote: string; coverage: number } {
+  const claimTerms = new Set(tokenize(claim));
+  if (claimTerms.size === 0) return { quote: '', coverage: 0 };
+
+  const sentences = splitSentences(sourceText).map(sentence => sentence.trim()).filter(Boolean);
+  const windows = sentences.flatMap((sentence, i) =>
+    i + 1 < sentences.length ? [sentence, `${sentence} ${sentences[i + 1]}`] : [sentence]
+  );
+
+  let best = { quote: '', coverage: 0 };
+  for (const window of windows) {
+    const windowTerms = new Set(tokenize(window));
+    const covered = [...claimTerms].filter(term => windowTerms.has(term)).length;
+    const coverage = covered / claimTerms.size;
+    // Prefer the shorter window when the coverage is equal
+    if (coverage > best.coverage || (coverage === best.coverage && best.quote && window.length < best.quote.length)) {
+      best = { quote: window, coverage };
+    }
+  }
+  return best;
+}
+
+function lexicalVerdict(coverage: number): CitationVerdict {
+  if (coverage >= 0.6) return 'supported';
+  if (coverage >= 0.3) return 'weak';
+  return 'unsupported';
+}
+
+// Ask the model to judge the claims; any claim it does not return keeps its lexical verdict
+async function judgeWithLlm(claims: ClaimVerification[], sourceTexts: string[], model: string): Promise<ClaimVerification[]> {
+  const prompt = `For each numbered claim, decide whether the quoted source excerpt supports it.
+
+${claims.map((claim, id) => `Claim ${id}: ${claim.sentence}
+Source [${claim.citationIndex}] excerpt: ${(claim.quote || sourceTexts[claim.citationIndex - 1]).substring(0, 1200)}`).join('\n\n')}
+
+Respond with only a JSON array, one object per claim: {"id": <claim number>, "verdict": "supported" | "weak" | "unsupported", "quote": "<exact supporting text from the excerpt, or empty>"}.
+"supported" means the excerpt states the claim, "weak" means it is related but does not fully establish it, "unsupported" means it does not back the claim.`;
+
+  const output = await getLlmProvider().complete({
+    model,
+    messages: [
+      { role: 'system', content: 'You are a meticulous fact-checker. You only answer with JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    maxTokens: 1500,
+    temperature: 0,
+  });
+
+  const judgements = extractJsonArray<{ id: number; verdict: string; quote?: string }>(output);
+
+  return claims.map((claim, id) => {
+    const judgement = judgements.find(j => j.id === id);
+    if (!judgement || !Object.hasOwn(VERDICT_RANK, judgement.verdict)) return claim;
+    return {
+      ...claim,
+      verdict: judgement.verdict as CitationVerdict,
+      quote: judgement.quote?.trim() || claim.quote,
+    };
+  });
+}
+
+// Pair each cited sentence with a supporting quote from its source and grade the citation
+export async function verifyCitations(
+  answer: string,
+  sources: SearchResult[],
+  citations: Citation[],
+  options: { sourceContexts?: string[]; model: string; mode?: VerificationMode }
+): Promise<{ citations: Citation[]; claims: ClaimVerification[] }> {
+  const mode = options.mode ?? getVerificationMode();
+  if (mode === 'off') return { citations, claims: [] };
+
+  // Check against everything the model was shown for the source
+  const sourceTexts = sources.map((source, i) => {
+    const context = options.sourceContexts?.[i];
+    return context && context !== source.content ? `${source.content}\n\n${context}` : source.content;
+  });
+
+  let claims: ClaimVerification[] = extractClaims(answer, sources.length).map(claim => {
+    const { quote, coverage } = findSupportingQuote(claim.sentence, sourceTexts[claim.citationIndex - 1]);
+    return { ...claim, quote, verdict: lexicalVerdict(coverage) };
+  });
+
+  if (mode === 'llm' && claims.length > 0) {
+    try {
+      claims = await judgeWithLlm(claims, sourceTexts, options.model);
+    } catch (error) {
+      console.warn('LLM citation verification failed, keeping lexical verdicts:', error);
+    }
+  }
+
+  const verifiedCitations = citations.map(citation => {
+    const own = claims.filter(claim => claim.citationIndex === citation.index);
+    if (own.length === 0) return citation;
+
+    const weakest = own.reduce((a, b) => VERDICT_RANK[b.verdict] < VERDICT_RANK[a.verdict] ? b : a);
+    const strongest = own.reduce((a, b) => VERDICT_RANK[b.verdict] > VERDICT_RANK[a.verdict] ? b : a);
+    return { ...citation, verdict: weakest.verdict, quote: strongest.quote || undefined };
+  });
+
+  return { citations: verifiedCitations, claims };
+}
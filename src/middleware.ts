@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth/cookie';
+import { apiError, apiErrorResponse, createCorrelationId } from '@/lib/apiErrors';
+
+// A first line of defence that only checks the session cookie is present; the route
+// handlers look the session up and scope everything to its user. Signed-out visitors
+// of the app are sent to the sign-in page, API calls get a 401
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const { pathname, search } = request.nextUrl;
+  // API-key clients may search without an account
+  const hasApiKey = request.headers.has('x-api-key') || /^Bearer\s/i.test(request.headers.get('authorization') ?? '');
+  if (pathname === '/api/search' && hasApiKey) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return apiErrorResponse(apiError('unauthorized', createCorrelationId(request.headers), { message: 'Sign in required' }));
+  }
+  const signIn = new URL('/signin', request.url);
+  if (pathname !== '/') signIn.searchParams.set('next', pathname + search);
+  return NextResponse.redirect(signIn);
+}
+
+// Shares, the shared pages, the model list and the auth routes stay public
+export const config = {
+  matcher: [
+    '/',
+    '/api/search',
+    '/api/chats/:path*',
+    '/api/collections/:path*',
+    '/api/documents/:path*',
+    '/api/knowledge/:path*',
+    '/api/media',
+    '/api/settings',
+    '/api/title',
+    '/api/keys/:path*',
+  ],
+};
@@ -6,27 +6,128 @@ export interface SearchResult {
   url: string;
   content: string;
   score?: number;
+  provider?: string; // search provider that returned this result
+  metadata?: Record<string, unknown>; // provider-specific extras (engines, age, crawl date, ...)
+  document?: DocumentLocation; // set when the result is a passage of an uploaded document
+  knowledge?: KnowledgeLocation; // set when the result comes from the local knowledge base
 }
 
+// Where a passage sits in an uploaded document; page is set for PDFs
+export interface DocumentLocation {
+  documentId: string;
+  name: string;
+  page?: number;
+}
+
+// Where a knowledge-base passage comes from: a file under an indexed directory or a sitemap page
+export interface KnowledgeLocation {
+  documentId: string;
+  location: string; // path relative to the directory, or the page URL
+  page?: number;
+}
+
+export type DocumentKind = 'pdf' | 'docx' | 'markdown' | 'text';
+
+// A file uploaded to a chat; its text is chunked and indexed for retrieval next to web results
+export interface ChatDocument {
+  id: string;
+  chatId: string;
+  name: string;
+  kind: DocumentKind;
+  mimeType: string;
+  size: number; // bytes
+  pageCount?: number;
+  chunkCount: number;
+  createdAt: Date;
+}
+
+export type CitationVerdict = 'supported' | 'weak' | 'unsupported';
+
 export interface Citation {
   index: number;
   url: string;
   title: string;
+  quote?: string; // best supporting quote found in the source
+  verdict?: CitationVerdict; // weakest verdict across the sentences citing this source
+  document?: DocumentLocation;
+  knowledge?: KnowledgeLocation;
+}
+
+// One cited sentence checked against one of the sources it cites
+export interface ClaimVerification {
+  sentenceIndex: number; // position in splitSentences(answer)
+  sentence: string;
+  citationIndex: number;
+  quote: string;
+  verdict: CitationVerdict;
+}
+
+// An image or video found alongside the search results. Shown in a strip above the
+// sources, not cited; remote images are loaded through /api/media
+export interface MediaResult {
+  type: 'image' | 'video';
+  url: string; // the image file, or the page where the video plays
+  thumbnailUrl?: string; // smaller preview; videos always need one to be shown
+  title?: string;
+  sourceUrl?: string; // page the image appears on, for attribution
+  width?: number;
+  height?: number;
+  provider?: string;
 }
 
 export interface SearchResponse {
   query: string;
   answer: string;
   sources: SearchResult[];
+  media?: MediaResult[];
   citations: Citation[];
+  claims?: ClaimVerification[];
+  model?: string; // model that generated the answer
+  searchQueries?: string[]; // what was actually searched, after rewriting follow-ups
+  relatedQuestions?: string[];
+  research?: ResearchSummary;
+  cache?: CacheInfo;
+}
+
+// Whether an answer was served from the server-side cache, and how old it was then
+export interface CacheInfo {
+  hit: boolean;
+  ageSeconds: number;
+  bypassed?: boolean; // the client asked for a fresh answer
+}
+
+// Search focus modes narrow the sources and shape the answer
+export type SearchFocus = 'all' | 'academic' | 'news' | 'forums' | 'code' | 'video';
+
+// Quick answers run one search; research plans sub-questions and writes a long report
+export type SearchMode = 'quick' | 'research';
+
+// Summary of a research run, kept with the answer
+export interface ResearchSummary {
+  subQuestions: string[];
+  rounds: number;
+  sourcesRead: number;
 }
 
+// Live progress of a research run
+export type ResearchProgress =
+  | { stage: 'planning' }
+  | { stage: 'planned'; round: number; subQuestions: string[] }
+  | { stage: 'searching'; round: number; query: string }
+  | { stage: 'read'; round: number; query: string; newSources: number; totalSources: number }
+  | { stage: 'reviewing'; round: number }
+  | { stage: 'writing'; totalSources: number };
+
 // Chat history types
 export interface ChatMessage {
   id: string;
   query: string;
   response: SearchResponse;
   timestamp: Date;
+  focus?: SearchFocus;
+  // The message this one follows; null starts the chat. Edits and regenerations add a
+  // sibling with the same parent. Missing in older history, where each message follows the one before it
+  parentId?: string | null;
 }
 
 export interface Chat {
@@ -35,10 +136,26 @@ export interface Chat {
   messages: ChatMessage[];
   createdAt: Date;
   updatedAt: Date;
+  model?: string; // model picked for this chat
+  pinned?: boolean;
+  titleEdited?: boolean; // renamed by hand, so generated titles no longer replace it
+  collectionId?: string;
+  activeMessageId?: string; // last message of the branch on screen; the newest message when unset
+}
+
+// A named group of chats; its instructions and default focus apply to every query asked in it
+export interface Collection {
+  id: string;
+  name: string;
+  instructions?: string;
+  defaultFocus?: SearchFocus;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface ChatHistoryState {
   chats: Chat[];
+  collections: Collection[];
   currentChatId: string | null;
   isLoading: boolean;
 }
@@ -53,7 +170,11 @@ export interface SearchInputProps {
 export interface SearchResultsProps {
   results: SearchResponse;
   onNewSearch: (query: string) => void;
+  onRefresh?: (query: string) => void; // defaults to onNewSearch
+  shareTarget?: ShareTarget; // enables publishing a share link
+  readOnly?: boolean; // hides refresh, clear and follow-up actions
   onClear: () => void;
+  isStreaming?: boolean;
 }
 
 export interface ChatSidebarProps {
@@ -74,7 +195,14 @@ export interface ConversationMessage {
 export interface SearchApiRequest {
   query: string;
   conversationContext?: ConversationMessage[];
-  generateTitle?: boolean;
+  stream?: boolean;
+  providers?: string[]; // subset of the server's enabled search providers
+  model?: string; // must be in the server's model allowlist
+  focus?: SearchFocus;
+  mode?: SearchMode;
+  bypassCache?: boolean; // ignore cached search results and answers
+  collectionId?: string; // applies the collection's instructions
+  chatId?: string; // searches the documents uploaded to this chat next to the web
 }
 
 export interface SearchApiResponse {
@@ -82,11 +210,171 @@ export interface SearchApiResponse {
   answer: string;
   sources: SearchResult[];
   citations: Citation[];
+  claims?: ClaimVerification[];
+  model?: string;
+  searchQueries?: string[];
+  relatedQuestions?: string[];
+  research?: ResearchSummary;
+  cache?: CacheInfo;
+}
+
+export interface ModelOption {
+  id: string;
+  isDefault: boolean;
+}
+
+export interface ModelsApiResponse {
+  models: ModelOption[];
+  defaultModel: string;
+}
+
+// Part of a search hit's text; match marks the words that matched the search
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface HistorySearchHit {
+  chatId: string;
+  chatTitle: string;
+  messageId: string;
+  timestamp: Date;
+  query: HighlightSegment[];
+  answer: HighlightSegment[]; // excerpt around the best match
+  sources?: HighlightSegment[]; // set when a source title matched
+}
+
+export interface HistorySearchApiResponse {
+  results: HistorySearchHit[];
+}
+
+// A published, read-only snapshot of one answer or a whole chat
+export interface SharedThread {
+  id: string;
+  kind: 'message' | 'chat';
+  title: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+}
+
+export interface ShareTarget {
+  chatId: string;
+  messageId?: string; // omit to share the whole chat
+}
+
+// A link the signed-in user published, without its snapshot
+export interface ShareInfo {
+  id: string;
+  kind: SharedThread['kind'];
+  title: string;
+  url: string;
+  createdAt: Date;
+}
+
+export interface CreateShareResponse {
+  id: string;
+  url: string;
+  token: string; // lets the publisher revoke the link; only returned once
+}
+
+// Preferences saved with the account and applied when the app opens
+export interface UserSettings {
+  model?: string;
+  focus?: SearchFocus;
+  mode?: SearchMode;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: Date;
+  settings: UserSettings;
+}
+
+export interface AuthProviderInfo {
+  id: string;
+  name: string;
+  type: 'credentials' | 'oidc';
+}
+
+export interface SessionApiResponse {
+  user: User | null; // null when signed out
+  providers: AuthProviderInfo[];
+  signupAllowed: boolean;
+}
+
+// A key for the public API; the key itself is only shown once, when it is issued
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string; // first characters of the key, to tell keys apart
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+export interface CreateApiKeyResponse {
+  apiKey: ApiKeyInfo;
+  key: string;
+}
+
+// Public API (/api/v1): a stable subset of the internal search request. The response is
+// a SearchResponse, or NDJSON SearchStreamEvents when stream is set
+export type PublicSearchRequest = Pick<
+  SearchApiRequest,
+  'query' | 'conversationContext' | 'stream' | 'providers' | 'model' | 'focus' | 'mode' | 'bypassCache'
+>;
+
+export type PublicSearchResponse = SearchResponse;
+
+// Streaming types (NDJSON events sent when SearchApiRequest.stream is set)
+export type SearchStreamEvent =
+  | { type: 'progress'; progress: ResearchProgress }
+  | { type: 'sources'; query: string; sources: SearchResult[]; media?: MediaResult[]; searchQueries?: string[] }
+  | { type: 'delta'; text: string }
+  | { type: 'citations'; citations: Citation[]; claims?: ClaimVerification[] }
+  | { type: 'done'; response: SearchResponse }
+  | ({ type: 'error' } & ApiError);
+
+// Where a request failed: reading it, searching, or generating the answer. 'server' covers
+// everything before the work starts (authentication, rate limits, configuration)
+export type ApiErrorStage = 'parse' | 'search' | 'llm' | 'server';
+
+// Stable machine codes; clients switch on these, never on the message
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'not_configured'
+  | 'search_failed'
+  | 'search_timeout'
+  | 'search_unavailable'
+  | 'search_auth_failed'
+  | 'llm_failed'
+  | 'llm_timeout'
+  | 'llm_unavailable'
+  | 'llm_rate_limited'
+  | 'llm_quota_exceeded'
+  | 'llm_auth_failed'
+  | 'internal_error';
+
+// One invalid field of a request body; field is a path such as conversationContext[2].answer
+export interface FieldError {
+  field: string;
+  message: string;
 }
 
 export interface ApiError {
-  error: string;
-  details?: string;
+  error: string; // message for people
+  code: ApiErrorCode;
+  stage: ApiErrorStage;
+  retryable: boolean; // the same request may succeed if sent again
+  correlationId: string; // also in the X-Correlation-Id header and the server log
+  details?: string; // the underlying error, in development only
+  retryAfter?: number; // seconds, for rate limits
+  fields?: FieldError[]; // invalid_request only: every field that failed validation
 }
 
 // UI state types
@@ -95,6 +383,11 @@ export interface SearchState {
   error: string | null;
   results: SearchResponse | null;
   searchHistory: string[];
+  progress?: ResearchProgress[];
+  retryAt?: number; // set when rate limited; searching is allowed again at this time (ms)
+  failure?: ApiError; // the structured error behind error, when the server sent one
+  retryAttempt?: number; // set while a retryable failure is being retried automatically
+  failedSearch?: { query: string; bypassCache?: boolean; parentId?: string | null }; // what Try Again repeats
 }
 
 // Utility types